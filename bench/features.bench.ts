@@ -0,0 +1,157 @@
+// Steady-state allocation benchmark for the feature extractor.
+// Run with `npm run bench`. Feeds synthetic FFT / RMS / waveform frames through
+// createFeatureExtractor, warms up until the JIT has settled, then measures heap growth
+// and garbage collections over several windows. Any per-frame allocation shows up as
+// young-generation growth beyond what the same loop without the extractor grows by (the
+// harness and runtime baseline, measured alongside every window), and over enough frames
+// as scavenges. Inputs come from a seeded Rng so every run feeds the same frames.
+// Exits non-zero if any window grows beyond its baseline or sees a collection.
+
+import { PerformanceObserver } from 'node:perf_hooks'
+import { getHeapSpaceStatistics } from 'node:v8'
+import { createFeatureExtractor } from '../src/engine/features'
+import { createManualClock } from '../src/engine/clock'
+import { createRng } from '../src/engine/random'
+
+const FFT_SIZE = 512
+const WAVE_SIZE = 2048
+const SAMPLE_RATE = 48000
+const VARIANTS = 64          // distinct input frames, cycled
+const WARMUP_FRAMES = 20000
+const MEASURE_FRAMES = 20000 // per window
+const WINDOWS = 5
+const MAX_WARMUP_WINDOWS = 10
+const INPUT_SEED = 0xbe7c4
+
+declare const gc: (() => void) | undefined
+declare const process: { exitCode?: number }
+
+// Per-frame garbage lands in new space; old-space growth during the run is the JIT's
+// code and feedback, not the extractor's, so it is left out of the figure.
+function newSpaceUsed() {
+  return getHeapSpaceStatistics().find(s => s.space_name === 'new_space')?.space_used_size ?? 0
+}
+
+// Precompute inputs so the harness itself allocates nothing per frame
+const random = createRng(INPUT_SEED)
+const ffts: Float32Array[] = []
+const waves: Float32Array[] = []
+const lefts: Float32Array[] = []
+const rights: Float32Array[] = []
+const channelFfts: Float32Array[][] = []
+const rmss: number[] = []
+for (let v = 0; v < VARIANTS; v++) {
+  const kick = v % 16 === 0 ? 1 : 0
+  const fft = new Float32Array(FFT_SIZE)
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const hz = (i / (FFT_SIZE - 1)) * SAMPLE_RATE * 0.5
+    const tilt = -40 - 30 * Math.log10(1 + hz / 200)
+    fft[i] = tilt + (hz < 150 ? 25 * kick : 0) + 6 * Math.sin(i * 0.3 + v) + (random() - 0.5) * 4
+  }
+  const l = new Float32Array(WAVE_SIZE), r = new Float32Array(WAVE_SIZE), m = new Float32Array(WAVE_SIZE)
+  for (let i = 0; i < WAVE_SIZE; i++) {
+    const s = 0.5 * Math.sin(2 * Math.PI * 110 * i / SAMPLE_RATE + v) + 0.1 * (random() - 0.5)
+    l[i] = s; r[i] = s * 0.8; m[i] = (l[i] + r[i]) * 0.5
+  }
+  ffts.push(fft); waves.push(m); lefts.push(l); rights.push(r)
+  channelFfts.push([fft.map(db => db + 1), fft.map(db => db - 1)]) // right 2 dB under left
+  rmss.push(Math.round(-30 + 15 * kick + random() * 3)) // integral dB: passes as a Smi, so the harness call itself doesn't box
+}
+const channels: Float32Array[][] = lefts.map((l, i) => [l, rights[i]])
+
+// start times of every collection; a window counts those inside its measured run only, not
+// the ones its settling timers and this observer cause
+const gcTimes: number[] = []
+const obs = new PerformanceObserver(list => { for (const e of list.getEntries()) gcTimes.push(e.startTime) })
+obs.observe({ entryTypes: ['gc'] })
+
+// An extractor on a fixed 60 fps timeline (performance.now() itself returns a fresh heap
+// number per call), fed `frames` frames per call
+const sink = new Float64Array(1)
+function createRun() {
+  const clock = createManualClock()
+  const extract = createFeatureExtractor({ now: clock.now })
+  return function run(frames: number) {
+    for (let n = 0; n < frames; n++) {
+      clock.advance(1000 / 60)
+      const v = n % VARIANTS
+      const f = extract(ffts[v], rmss[v], SAMPLE_RATE, waves[v], channels[v], null, null, channelFfts[v])
+      sink[0] += f.energy
+    }
+  }
+}
+
+const run = createRun()
+
+// the same loop without the extractor, for the baseline
+function idle(frames: number) {
+  for (let n = 0; n < frames; n++) {
+    const v = n % VARIANTS
+    sink[0] += ffts[v][0] * 0
+  }
+}
+
+// new-space growth across loop(frames), including the cost of measuring it
+function measure(loop: (frames: number) => void, frames: number) {
+  const before = newSpaceUsed()
+  loop(frames)
+  return newSpaceUsed() - before
+}
+
+// let the observer flush entries from earlier collections before counting
+const settle = () => new Promise(resolve => setTimeout(resolve, 50))
+
+type Window = { bytes: number; baseline: number; gcs: number; allocates: boolean }
+
+async function measureWindow(): Promise<Window> {
+  await settle() // the previous window's timers and GC entries are done with before measuring
+  const baseline = measure(idle, MEASURE_FRAMES)
+  const from = performance.now()
+  const bytes = measure(run, MEASURE_FRAMES)
+  const to = performance.now()
+  await settle()
+  const gcs = gcTimes.filter(t => t >= from && t <= to).length
+  return { bytes, baseline, gcs, allocates: gcs > 0 || bytes > baseline }
+}
+
+run(WARMUP_FRAMES)
+idle(WARMUP_FRAMES)
+if (typeof gc === 'function') gc()
+
+// A branch first taken late (a section boundary, the beat phase wrapping backwards) or a
+// rarely called function tiering up runs unoptimised code for a while, which allocates.
+// Keep warming up a window at a time until one comes out clean, then hold every measured
+// window to the same rule.
+let warmups = 1
+while ((await measureWindow()).allocates) {
+  if (++warmups > MAX_WARMUP_WINDOWS) break
+}
+
+const windows: Window[] = []
+const t0 = performance.now()
+if (warmups <= MAX_WARMUP_WINDOWS) {
+  for (let w = 0; w < WINDOWS; w++) windows.push(await measureWindow())
+}
+const elapsed = performance.now() - t0
+obs.disconnect()
+
+console.log(`warm-up windows:  ${warmups}`)
+console.log(`frames:           ${WINDOWS} × ${MEASURE_FRAMES}`)
+console.log(`time / frame:     ${(elapsed / (WINDOWS * MEASURE_FRAMES) * 1000).toFixed(1)} µs (incl. settling)`)
+for (const [i, w] of windows.entries()) {
+  console.log(`window ${i + 1}:         ${w.bytes} bytes (baseline ${w.baseline}), ${w.gcs} GCs${w.allocates ? '  (allocates)' : ''}`)
+}
+console.log(`(checksum ${sink[0].toFixed(3)})`)
+
+if (typeof gc !== 'function') {
+  console.warn('gc() not exposed; run with node --expose-gc for a clean baseline')
+}
+if (warmups > MAX_WARMUP_WINDOWS) {
+  console.error(`FAIL: extractor still allocates after ${MAX_WARMUP_WINDOWS} warm-up windows`)
+  process.exitCode = 1
+} else if (windows.some(w => w.allocates)) {
+  console.error('FAIL: extractor allocates in steady state')
+  process.exitCode = 1
+} else {
+  console.log('OK: zero steady-state allocation')
+}
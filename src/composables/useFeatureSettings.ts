@@ -0,0 +1,220 @@
+import { ref, computed, shallowRef } from 'vue'
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_ASSIGNMENTS,
+  createCalibrator,
+  profileSettings,
+  type CalibrationProfile,
+  type CalibrationResult,
+  type Calibrator,
+  type FeatureSettings,
+  type SourceKind,
+} from '../engine/calibration'
+import type { LiveFeatureKey } from '../engine/features'
+
+const PROFILES_STORAGE_KEY = 'reveri.features.profiles'
+const ASSIGN_STORAGE_KEY = 'reveri.features.assign'
+// How often the calibration progress is read back from the calibrator
+const CALIBRATE_POLL_MS = 100
+// Calibration gives up when no analysis frame has moved it on for this long (nothing playing,
+// the source stopped, or the tab is hidden)
+const CALIBRATE_STALL_MS = 3000
+
+type StoredProfiles = { profiles: CalibrationProfile[] }
+
+// Built-ins first (with any stored edits), then user profiles
+function loadProfiles(): CalibrationProfile[] {
+  const builtIns = BUILT_IN_PROFILES.map(p => ({ ...p, settings: { ...p.settings } }))
+  try {
+    const raw = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || 'null') as StoredProfiles | null
+    const stored = Array.isArray(raw?.profiles) ? raw!.profiles.filter(p => p && typeof p.id === 'string' && typeof p.name === 'string') : []
+    for (const p of stored) {
+      const builtIn = builtIns.find(b => b.id === p.id)
+      if (builtIn) builtIn.settings = { ...p.settings }
+    }
+    const user = stored.filter(p => !builtIns.some(b => b.id === p.id)).map(p => ({ ...p, builtIn: false, settings: { ...p.settings } }))
+    return [...builtIns, ...user]
+  } catch {
+    return builtIns
+  }
+}
+
+function saveProfiles(profiles: CalibrationProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ profiles } satisfies StoredProfiles))
+  } catch {}
+}
+
+function loadAssignments(): Record<SourceKind, string> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ASSIGN_STORAGE_KEY) || 'null')
+    return { ...DEFAULT_ASSIGNMENTS, ...(raw && typeof raw === 'object' ? raw : {}) }
+  } catch {
+    return { ...DEFAULT_ASSIGNMENTS }
+  }
+}
+
+function saveAssignments(assign: Record<SourceKind, string>) {
+  try {
+    localStorage.setItem(ASSIGN_STORAGE_KEY, JSON.stringify(assign))
+  } catch {}
+}
+
+// Feature extractor settings: calibration profiles per source kind, live edits and
+// auto-calibration (see calibration.ts). The host applies `settings` to its running
+// extractor without resetting it, and feeds analysis frames to `calibrator` while one runs.
+export function useFeatureSettings() {
+  // State
+  const profiles = ref<CalibrationProfile[]>(loadProfiles())
+  const assignments = ref<Record<SourceKind, string>>(loadAssignments())
+  const sourceKind = ref<SourceKind>('file')
+  const activeId = ref(assignments.value.file)
+  const calibrator = shallowRef<Calibrator | null>(null)
+  const calibrationProgress = ref<number | null>(null) // 0..1 while listening
+  const lastCalibration = ref<CalibrationResult | null>(null)
+  const calibrationError = ref<string | null>(null)
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let idCounter = 0
+
+  // Computed
+  const activeProfile = computed(() => profiles.value.find(p => p.id === activeId.value) ?? profiles.value[0])
+  const settings = computed<FeatureSettings>(() => profileSettings(activeProfile.value))
+
+  const persist = () => saveProfiles(profiles.value)
+
+  // Profile selection. Picking one while a source is live also makes it that kind's profile.
+  const selectProfile = (id: string) => {
+    if (!profiles.value.some(p => p.id === id)) return
+    activeId.value = id
+    assignments.value = { ...assignments.value, [sourceKind.value]: id }
+    saveAssignments(assignments.value)
+  }
+
+  // A new source started: switch to the profile assigned to its kind
+  const useForSource = (kind: SourceKind) => {
+    sourceKind.value = kind
+    const id = assignments.value[kind]
+    activeId.value = profiles.value.some(p => p.id === id) ? id : DEFAULT_ASSIGNMENTS[kind]
+  }
+
+  // Edits go to the active profile
+  const updateSetting = (key: LiveFeatureKey, value: number | boolean) => {
+    const profile = activeProfile.value
+    profile.settings = { ...profile.settings, [key]: value }
+    persist()
+  }
+
+  const updateSettings = (patch: Partial<FeatureSettings>) => {
+    const profile = activeProfile.value
+    profile.settings = { ...profile.settings, ...patch }
+    persist()
+  }
+
+  // New profile starting from the current settings; it becomes the active one
+  const createProfile = (name: string) => {
+    const id = `p${Date.now().toString(36)}${++idCounter}`
+    profiles.value = [...profiles.value, { id, name: name.trim() || 'Profile', builtIn: false, settings: { ...settings.value } }]
+    persist()
+    selectProfile(id)
+  }
+
+  const renameProfile = (id: string, name: string) => {
+    const profile = profiles.value.find(p => p.id === id)
+    if (!profile || !name.trim()) return
+    profile.name = name.trim()
+    persist()
+  }
+
+  // User profiles are removed (their source kinds fall back to the built-ins);
+  // built-ins go back to their factory settings
+  const deleteProfile = (id: string) => {
+    const profile = profiles.value.find(p => p.id === id)
+    if (!profile) return
+    if (profile.builtIn) {
+      profile.settings = { ...(BUILT_IN_PROFILES.find(b => b.id === id)?.settings ?? {}) }
+      persist()
+      return
+    }
+    profiles.value = profiles.value.filter(p => p.id !== id)
+    const assign = { ...assignments.value }
+    for (const kind of Object.keys(assign) as SourceKind[]) {
+      if (assign[kind] === id) assign[kind] = DEFAULT_ASSIGNMENTS[kind]
+    }
+    assignments.value = assign
+    saveAssignments(assign)
+    if (activeId.value === id) activeId.value = assign[sourceKind.value]
+    persist()
+  }
+
+  // Auto-calibrate: listen for a few seconds, then write the measured ranges into the active profile
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer)
+    pollTimer = null
+  }
+
+  const calibrate = () => {
+    stopPolling()
+    const cal = createCalibrator()
+    calibrator.value = cal
+    calibrationProgress.value = 0
+    calibrationError.value = null
+    let lastProgress = 0
+    let lastProgressAt = Date.now()
+    pollTimer = setInterval(() => {
+      const now = Date.now()
+      if (cal.progress !== lastProgress) {
+        lastProgress = cal.progress
+        lastProgressAt = now
+      }
+      calibrationProgress.value = cal.progress
+      if (!cal.done && now - lastProgressAt < CALIBRATE_STALL_MS) return
+      stopPolling()
+      calibrator.value = null
+      calibrationProgress.value = null
+      if (!cal.done) {
+        calibrationError.value = 'No input: start playback or pick an input device and try again'
+        return
+      }
+      const result = cal.result()
+      if (!result) {
+        calibrationError.value = 'No usable signal: play something with quiet and loud parts and try again'
+        return
+      }
+      lastCalibration.value = result
+      updateSettings(result.settings as Partial<FeatureSettings>)
+    }, CALIBRATE_POLL_MS)
+  }
+
+  const cancelCalibration = () => {
+    stopPolling()
+    calibrator.value = null
+    calibrationProgress.value = null
+  }
+
+  return {
+    // State
+    profiles,
+    assignments,
+    sourceKind,
+    activeId,
+    calibrator,
+    calibrationProgress,
+    lastCalibration,
+    calibrationError,
+
+    // Computed
+    activeProfile,
+    settings,
+
+    // Methods
+    selectProfile,
+    useForSource,
+    updateSetting,
+    updateSettings,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+    calibrate,
+    cancelCalibration
+  }
+}
@@ -0,0 +1,131 @@
+import { ref, computed } from 'vue'
+
+export type QueueItem = {
+  id: string
+  file: File
+  name: string
+}
+
+export type RepeatMode = 'off' | 'all' | 'one'
+
+// Track queue: ordering, shuffle and repeat. Knows nothing about audio;
+// useSimpleAudioManager decides when to load and play what this returns.
+export function usePlaylist() {
+  // State
+  const items = ref<QueueItem[]>([])
+  const currentId = ref<string | null>(null)
+  const shuffle = ref(false)
+  const repeat = ref<RepeatMode>('off')
+
+  // Shuffled play order (ids); rebuilt when shuffle is switched on
+  let shuffleOrder: string[] = []
+  let idCounter = 0
+
+  // Computed
+  const current = computed(() => items.value.find(i => i.id === currentId.value) ?? null)
+  const currentIndex = computed(() => items.value.findIndex(i => i.id === currentId.value))
+
+  const playOrder = () => shuffle.value ? shuffleOrder : items.value.map(i => i.id)
+
+  const byId = (id: string | undefined) => items.value.find(i => i.id === id) ?? null
+
+  // Fisher–Yates over all ids, with the current track kept first
+  const reshuffle = () => {
+    const ids = items.value.map(i => i.id).filter(id => id !== currentId.value)
+    for (let i = ids.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      const tmp = ids[i]; ids[i] = ids[j]; ids[j] = tmp
+    }
+    shuffleOrder = currentId.value ? [currentId.value, ...ids] : ids
+  }
+
+  // Queue editing
+  const add = (files: File[]) => {
+    const added = files.map(file => ({ id: `q${++idCounter}`, file, name: file.name }))
+    items.value = [...items.value, ...added]
+    if (shuffle.value) {
+      // Scatter new tracks among the ones not yet played
+      const pos = Math.max(0, shuffleOrder.indexOf(currentId.value ?? ''))
+      for (const item of added) {
+        const at = pos + 1 + Math.floor(Math.random() * (shuffleOrder.length - pos))
+        shuffleOrder.splice(at, 0, item.id)
+      }
+    }
+    return added
+  }
+
+  const remove = (id: string) => {
+    items.value = items.value.filter(i => i.id !== id)
+    shuffleOrder = shuffleOrder.filter(x => x !== id)
+    if (currentId.value === id) currentId.value = null
+  }
+
+  const move = (from: number, to: number) => {
+    const list = [...items.value]
+    if (from < 0 || from >= list.length || to < 0 || to >= list.length || from === to) return
+    const [item] = list.splice(from, 1)
+    list.splice(to, 0, item)
+    items.value = list
+  }
+
+  const clear = () => {
+    items.value = []
+    shuffleOrder = []
+    currentId.value = null
+  }
+
+  const select = (id: string | null) => {
+    currentId.value = id
+  }
+
+  // Modes
+  const setShuffle = (on: boolean) => {
+    shuffle.value = on
+    if (on) reshuffle()
+  }
+
+  const setRepeat = (mode: RepeatMode) => {
+    repeat.value = mode
+  }
+
+  // Navigation. `manual` skips repeat-one so next/previous buttons still move.
+  const peekNext = (manual = false): QueueItem | null => {
+    const order = playOrder()
+    if (!order.length) return null
+    if (repeat.value === 'one' && !manual && currentId.value) return byId(currentId.value)
+    const idx = order.indexOf(currentId.value ?? '')
+    if (idx + 1 < order.length) return byId(order[idx + 1])
+    return repeat.value === 'off' && !manual ? null : byId(order[0])
+  }
+
+  const peekPrevious = (): QueueItem | null => {
+    const order = playOrder()
+    if (!order.length) return null
+    const idx = order.indexOf(currentId.value ?? '')
+    if (idx > 0) return byId(order[idx - 1])
+    return repeat.value === 'all' ? byId(order[order.length - 1]) : byId(order[0])
+  }
+
+  return {
+    // State
+    items,
+    currentId,
+    shuffle,
+    repeat,
+
+    // Computed
+    current,
+    currentIndex,
+
+    // Methods
+    add,
+    remove,
+    move,
+    clear,
+    select,
+    setShuffle,
+    setRepeat,
+    peekNext,
+    peekPrevious
+  }
+}
@@ -0,0 +1,245 @@
+import { ref, toRaw, type Ref } from 'vue'
+import { modulation, registry, saveState, type Layer } from '../engine/layers'
+import {
+  controlDefaults,
+  layerPresetFile,
+  parseLayerPreset,
+  parsePresetFile,
+  parseScenePreset,
+  sceneFile,
+  validateState,
+  type LayerPreset,
+  type ScenePreset,
+} from '../engine/presets'
+
+const LAYER_PRESETS_STORAGE_KEY = 'reveri.presets.layer'
+const SCENE_PRESETS_STORAGE_KEY = 'reveri.presets.scene'
+
+let idCounter = 0
+const newId = (prefix: string) => `${prefix}${Date.now().toString(36)}${++idCounter}`
+
+function load<T>(key: string, parse: (raw: unknown, id: string) => T | null): T[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(key) || 'null')
+    if (!Array.isArray(raw)) return []
+    return raw.map(p => parse(p, typeof p?.id === 'string' ? p.id : newId('p'))).filter((p): p is T => p !== null)
+  } catch {
+    return []
+  }
+}
+
+function save(key: string, presets: unknown[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(presets))
+  } catch {}
+}
+
+// Offer a preset file for download, named after the preset
+function download(name: string, suffix: string, contents: unknown) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset'
+  const url = URL.createObjectURL(new Blob([JSON.stringify(contents, null, 2) + '\n'], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${slug}.${suffix}.json`
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Rename/delete/duplicate are the same for both kinds of preset
+function presetList<T extends { id: string; name: string }>(list: Ref<T[]>, persist: () => void, prefix: string) {
+  const rename = (id: string, name: string) => {
+    const preset = list.value.find(p => p.id === id)
+    if (!preset || !name.trim()) return
+    preset.name = name.trim()
+    persist()
+  }
+
+  const remove = (id: string) => {
+    list.value = list.value.filter(p => p.id !== id)
+    persist()
+  }
+
+  const duplicate = (id: string): T | null => {
+    const preset = list.value.find(p => p.id === id)
+    if (!preset) return null
+    const copy = { ...structuredClone(toRaw(preset)), id: newId(prefix), name: `${preset.name} copy` } as T
+    list.value = [...list.value, copy]
+    persist()
+    return copy
+  }
+
+  return { rename, remove, duplicate }
+}
+
+// Named presets of one layer's control values (saveState keeps only the current, unnamed values).
+// Presets are stored together and picked by layer id; exported files carry the layer id too.
+export function useLayerPresets() {
+  // State
+  const presets = ref<LayerPreset[]>(load(LAYER_PRESETS_STORAGE_KEY, parseLayerPreset))
+  const error = ref<string | null>(null)
+
+  const persist = () => save(LAYER_PRESETS_STORAGE_KEY, presets.value)
+  const { rename, remove, duplicate } = presetList(presets, persist, 'l')
+
+  const presetsFor = (layerId: string) => presets.value.filter(p => p.layerId === layerId)
+
+  // Methods
+  const savePreset = (layer: Layer, name: string): LayerPreset => {
+    const preset = { id: newId('l'), name: name.trim() || 'Preset', layerId: layer.id, state: validateState(layer.controls, layer.state) }
+    presets.value = [...presets.value, preset]
+    persist()
+    return preset
+  }
+
+  // Overwrite a preset with the layer's current values
+  const updatePreset = (id: string, layer: Layer) => {
+    const preset = presets.value.find(p => p.id === id)
+    if (!preset) return
+    preset.state = validateState(layer.controls, layer.state)
+    persist()
+  }
+
+  const applyPreset = (id: string, layer: Layer) => {
+    const preset = presets.value.find(p => p.id === id)
+    if (!preset) return
+    Object.assign(layer.state, validateState(layer.controls, preset.state))
+    saveState(layer.id, layer.state)
+  }
+
+  const resetToDefaults = (layer: Layer) => {
+    Object.assign(layer.state, controlDefaults(layer.controls))
+    saveState(layer.id, layer.state)
+  }
+
+  const exportPreset = (id: string) => {
+    const preset = presets.value.find(p => p.id === id)
+    if (preset) download(preset.name, 'reveri-layer', layerPresetFile(preset))
+  }
+
+  // Adds the file's preset to the list; scene files are refused
+  const importPreset = async (file: File): Promise<LayerPreset | null> => {
+    error.value = null
+    try {
+      const parsed = parsePresetFile(await file.text(), newId('l'))
+      if (parsed.kind !== 'layer') throw new Error('This is a scene file: import it under Scenes')
+      presets.value = [...presets.value, parsed.preset]
+      persist()
+      return parsed.preset
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e)
+      return null
+    }
+  }
+
+  return {
+    // State
+    presets,
+    error,
+
+    // Methods
+    presetsFor,
+    savePreset,
+    updatePreset,
+    applyPreset,
+    resetToDefaults,
+    renamePreset: rename,
+    deletePreset: remove,
+    duplicatePreset: duplicate,
+    exportPreset,
+    importPreset,
+  }
+}
+
+// Scenes: the selected layers in order, every one of their control values, and the
+// modulation matrix with its modulators. Applying one restores all of it; the caller
+// selects the returned layer ids.
+export function useScenePresets() {
+  // State
+  const scenes = ref<ScenePreset[]>(load(SCENE_PRESETS_STORAGE_KEY, parseScenePreset))
+  const error = ref<string | null>(null)
+
+  const persist = () => save(SCENE_PRESETS_STORAGE_KEY, scenes.value)
+  const { rename, remove, duplicate } = presetList(scenes, persist, 's')
+
+  // Methods
+  const captureScene = (layerIds: string[], name: string, id = newId('s')): ScenePreset => ({
+    id,
+    name: name.trim() || 'Scene',
+    layers: layerIds
+      .map(layerId => registry.get(layerId))
+      .filter((layer): layer is Layer => !!layer)
+      .map(layer => ({ id: layer.id, state: validateState(layer.controls, layer.state) })),
+    modulation: modulation.exportState(),
+  })
+
+  const saveScene = (layerIds: string[], name: string): ScenePreset => {
+    const scene = captureScene(layerIds, name)
+    scenes.value = [...scenes.value, scene]
+    persist()
+    return scene
+  }
+
+  // Overwrite a scene with what's on screen now
+  const updateScene = (id: string, layerIds: string[]) => {
+    const i = scenes.value.findIndex(s => s.id === id)
+    if (i < 0) return
+    scenes.value[i] = captureScene(layerIds, scenes.value[i].name, id)
+    persist()
+  }
+
+  // Restores the layers' values and the modulation; returns the layers to select
+  // (those this build has), or null when there are none
+  const applyScene = (scene: ScenePreset): string[] | null => {
+    error.value = null
+    const ids: string[] = []
+    for (const entry of scene.layers) {
+      const layer = registry.get(entry.id)
+      if (!layer) continue
+      Object.assign(layer.state, validateState(layer.controls, entry.state))
+      saveState(layer.id, layer.state)
+      ids.push(layer.id)
+    }
+    if (!ids.length) {
+      error.value = `None of the scene's layers exist here (${scene.layers.map(l => l.id).join(', ')})`
+      return null
+    }
+    modulation.importState(scene.modulation)
+    return ids
+  }
+
+  const exportScene = (id: string) => {
+    const scene = scenes.value.find(s => s.id === id)
+    if (scene) download(scene.name, 'reveri-scene', sceneFile(scene))
+  }
+
+  // Adds the file's scene to the list; layer preset files are refused
+  const importScene = async (file: File): Promise<ScenePreset | null> => {
+    error.value = null
+    try {
+      const parsed = parsePresetFile(await file.text(), newId('s'))
+      if (parsed.kind !== 'scene') throw new Error('This is a layer preset: import it in that layer\'s controls')
+      scenes.value = [...scenes.value, parsed.preset]
+      persist()
+      return parsed.preset
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : String(e)
+      return null
+    }
+  }
+
+  return {
+    // State
+    scenes,
+    error,
+
+    // Methods
+    saveScene,
+    updateScene,
+    applyScene,
+    renameScene: rename,
+    deleteScene: remove,
+    duplicateScene: duplicate,
+    exportScene,
+    importScene,
+  }
+}
@@ -1,5 +1,94 @@
-import { ref, computed } from 'vue'
+import { ref, computed, shallowRef } from 'vue'
 import * as Tone from 'tone'
+import type { AudioDevice } from '../lib/types'
+import { createTransport, type LoopRegion, type TransportState } from '../engine/transport'
+import { usePlaylist, type QueueItem, type RepeatMode } from './usePlaylist'
+import { ANALYSIS_PROCESSOR, createAnalysisReceiver, type AnalysisFrame, type AnalysisOptions, type AnalysisSource, type OnsetTuning, type SpectrumMode } from '../engine/analysis'
+import analysisWorkletUrl from '../engine/analysis.worklet?worker&url'
+import type { TimelineMessage, TimelineRequest, TrackTimeline } from '../engine/timeline'
+import TimelineWorker from '../engine/timeline.worker?worker'
+
+// Seconds before a track's end (plus crossfade) at which the next one is decoded and scheduled
+const PRELOAD_LEAD_SEC = 4
+// Time-domain capture length; leaves room for the extractor to find a trigger point
+const WAVEFORM_SIZE = 2048
+// Audio-thread analysis; FFT size and front end come from the user's AnalysisFrontEnd
+const ANALYSIS_OPTIONS: AnalysisOptions = { waveformSize: WAVEFORM_SIZE, channels: 2 }
+const CROSSFADE_STORAGE_KEY = 'reveri.audio.crossfade'
+const ANALYSIS_STORAGE_KEY = 'reveri.audio.analysis'
+
+// Spectrum front end (see analysis.ts). The default matches the Tone analyser it replaced
+// (size 512); the polling fallback only honours fftSize.
+export type AnalysisFrontEnd = { spectrum: SpectrumMode, fftSize: number }
+export const FFT_SIZES = [512, 1024, 2048, 4096, 8192]
+const SPECTRUM_MODES: SpectrumMode[] = ['fft', 'multires', 'cqt']
+const DEFAULT_FRONT_END: AnalysisFrontEnd = { spectrum: 'fft', fftSize: 1024 }
+
+// One of two playback decks; the idle deck preloads the next track
+type Deck = {
+  player: Tone.Player
+  gain: Tone.Gain
+  url: string | null
+  itemId: string | null
+}
+
+// Next track scheduled on the audio clock, committed once it starts sounding
+type Handover = {
+  deck: number
+  item: QueueItem
+  startAt: number   // context time the incoming deck starts
+  fade: number      // crossfade seconds
+}
+
+const INPUT_DEVICE_STORAGE_KEY = 'reveri.audio.inputDevice'
+
+function loadPreferredInputDevice(): string {
+  try {
+    return localStorage.getItem(INPUT_DEVICE_STORAGE_KEY) || ''
+  } catch {
+    return ''
+  }
+}
+
+function loadCrossfade(): number {
+  try {
+    const v = parseFloat(localStorage.getItem(CROSSFADE_STORAGE_KEY) || '')
+    return isFinite(v) && v >= 0 ? v : 0
+  } catch {
+    return 0
+  }
+}
+
+function loadAnalysisFrontEnd(): AnalysisFrontEnd {
+  try {
+    const v = JSON.parse(localStorage.getItem(ANALYSIS_STORAGE_KEY) || 'null')
+    return {
+      spectrum: SPECTRUM_MODES.includes(v?.spectrum) ? v.spectrum : DEFAULT_FRONT_END.spectrum,
+      fftSize: FFT_SIZES.includes(v?.fftSize) ? v.fftSize : DEFAULT_FRONT_END.fftSize,
+    }
+  } catch {
+    return { ...DEFAULT_FRONT_END }
+  }
+}
+
+function saveAnalysisFrontEnd(frontEnd: AnalysisFrontEnd) {
+  try {
+    localStorage.setItem(ANALYSIS_STORAGE_KEY, JSON.stringify(frontEnd))
+  } catch {}
+}
+
+function saveCrossfade(seconds: number) {
+  try {
+    localStorage.setItem(CROSSFADE_STORAGE_KEY, String(seconds))
+  } catch {}
+}
+
+function savePreferredInputDevice(deviceId: string) {
+  try {
+    if (deviceId) localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, deviceId)
+    else localStorage.removeItem(INPUT_DEVICE_STORAGE_KEY)
+  } catch {}
+}
 
 export function useSimpleAudioManager() {
   // State
@@ -12,8 +101,34 @@ export function useSimpleAudioManager() {
   const duration = ref(0)
   const currentTime = ref(0)
   
-  // Timer for updating current time
-  let timeUpdateTimer: number | null = null
+  // Input devices (microphones, loopback devices like Stereo Mix / VB-CABLE)
+  const inputDevices = ref<AudioDevice[]>([])
+  const selectedDeviceId = ref<string>(loadPreferredInputDevice())
+  let deviceChangeHandler: (() => void) | null = null
+  
+  // Transport clock (derived from the audio context clock)
+  const transport = createTransport(() => Tone.getContext().currentTime)
+  const transportState = ref<TransportState>('stopped')
+  const loopEnabled = ref(false)
+  const loopRegion = ref<LoopRegion | null>(null)
+  let clockRafId: number | null = null
+  
+  // Queue / playlist
+  const playlist = usePlaylist()
+  const crossfadeSec = ref(loadCrossfade())
+  const trackVersion = ref(0) // bumps whenever a different track becomes current
+  let handover: Handover | null = null
+  let preloading = false
+  // Deck loads run one at a time. Picking a track bumps the token, so loads started
+  // earlier (a preload, a previous click) see they were superseded once they finish
+  let deckLoads: Promise<unknown> = Promise.resolve()
+  let deckLoadToken = 0
+  
+  // Offline pre-analysis of the current track (see timeline.ts), cached per queue item
+  const timeline = shallowRef<TrackTimeline | null>(null)
+  const timelineProgress = ref<number | null>(null) // 0..1 while analysing
+  const timelineCache = new Map<string, TrackTimeline>()
+  let timelineWorker: Worker | null = null
   
   // Guard to prevent multiple simultaneous startPlayback calls
   let isStartingPlayback = false
@@ -22,12 +137,30 @@ export function useSimpleAudioManager() {
   let mic: Tone.UserMedia
   let analyser: Tone.Analyser
   let meter: Tone.Meter
-  let player: Tone.Player
+  let player: Tone.Player // the active deck's player
   
   // Enhanced analyser for better frequency resolution
   let enhancedAnalyser: Tone.Analyser
-  // Track current file URL to revoke later
-  let fileUrl: string | null = null
+  
+  // Time-domain capture: mono sum plus per-channel when the splitter is available
+  let waveform: Tone.Waveform
+  let splitter: Tone.Split | null = null
+  let channelWaveforms: Tone.Waveform[] = []
+  let channelAnalysers: Tone.Analyser[] = [] // per-channel spectra for the stereo features
+  
+  // Analysis worklet; null when AudioWorklet is unavailable and the analysers above are polled instead
+  let analysisNode: AudioWorkletNode | null = null
+  let analysisReceiver: ReturnType<typeof createAnalysisReceiver> | null = null
+  // The visualizer's onset options, handed to every worklet started (see AnalysisSource)
+  let onsetTuning: OnsetTuning | null = null
+  let analysisModuleLoaded = false
+  const analysisInputs = new Set<Tone.ToneAudioNode>() // everything connectAnalysis() has fed
+  const analysisFrontEnd = ref<AnalysisFrontEnd>(loadAnalysisFrontEnd())
+  
+  // File playback decks, both summed into one bus that feeds analysers + destination
+  let decks: Deck[] = []
+  let activeDeck = 0
+  let fileBus: Tone.Gain
   
   // Computed
   const hasAudio = computed(() => currentSource.value !== null)
@@ -47,22 +180,59 @@ export function useSimpleAudioManager() {
       // Create enhanced analyser with higher resolution for visualization
       enhancedAnalyser = new Tone.Analyser({
         type: 'fft',
-        size: 512, // Higher resolution for better frequency analysis
+        size: analysisFrontEnd.value.fftSize >> 1, // bins, like the worklet's fftSize / 2
         smoothing: 0.08 // Lower smoothing; we handle smoothing in features.ts
       })
       
       // Create meter for RMS values
       meter = new Tone.Meter(0.2) // Smooth RMS values for better visualization
       
+      // Waveform capture for oscilloscope-style layers and zero-crossing rate
+      waveform = new Tone.Waveform(WAVEFORM_SIZE)
+      try {
+        splitter = new Tone.Split(2)
+        channelWaveforms = [new Tone.Waveform(WAVEFORM_SIZE), new Tone.Waveform(WAVEFORM_SIZE)]
+        splitter.connect(channelWaveforms[0], 0)
+        splitter.connect(channelWaveforms[1], 1)
+        channelAnalysers = [0, 1].map(() => new Tone.Analyser({ type: 'fft', size: enhancedAnalyser.size, smoothing: 0.08 }))
+        splitter.connect(channelAnalysers[0], 0)
+        splitter.connect(channelAnalysers[1], 1)
+      } catch (err) {
+        console.warn('Stereo split unavailable, waveform will be mono:', err)
+        splitter = null
+        channelWaveforms = []
+        channelAnalysers = []
+      }
+      
+      await startAnalysisWorklet()
+      
       // Create microphone input
       mic = new Tone.UserMedia()
       
-      // Create player for file playback
-      player = new Tone.Player()
+      // Create two player decks for gapless / crossfaded file playback
+      fileBus = new Tone.Gain(1)
+      decks = [0, 1].map(i => {
+        const gain = new Tone.Gain(i === 0 ? 1 : 0)
+        const deckPlayer = new Tone.Player()
+        deckPlayer.connect(gain)
+        gain.connect(fileBus)
+        return { player: deckPlayer, gain, url: null, itemId: null }
+      })
+      activeDeck = 0
+      player = decks[0].player
+      connectAnalysis(fileBus)
+      fileBus.toDestination()
       
       // Do not route analysers to destination; avoid parallel audio paths
       // Only sources (mic/player) should go to destination
       
+      // Keep the device list fresh when inputs are plugged/unplugged
+      if (navigator.mediaDevices && !deviceChangeHandler) {
+        deviceChangeHandler = () => { refreshInputDevices() }
+        navigator.mediaDevices.addEventListener('devicechange', deviceChangeHandler)
+      }
+      await refreshInputDevices()
+      
       isInitialized.value = true
       error.value = null
     } catch (err) {
@@ -71,6 +241,129 @@ export function useSimpleAudioManager() {
     }
   }
   
+  // Load the analysis worklet. Tone's addAudioWorkletModule() only ever loads the first
+  // module it is given on a context, so the module goes through the raw context's worklet.
+  const startAnalysisWorklet = async () => {
+    try {
+      const context = Tone.getContext()
+      const worklet = context.rawContext.audioWorklet
+      if (!worklet) throw new Error('AudioWorklet is only available in a secure context (https or localhost)')
+      if (!analysisModuleLoaded) {
+        await worklet.addModule(analysisWorkletUrl)
+        analysisModuleLoaded = true
+      }
+      const options: AnalysisOptions = { ...ANALYSIS_OPTIONS, ...analysisFrontEnd.value, ...onsetTuning }
+      analysisNode = context.createAudioWorkletNode(ANALYSIS_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers', // mono sources are upmixed to both channels
+        processorOptions: options,
+      })
+      analysisReceiver = createAnalysisReceiver(analysisNode.port, context.sampleRate, options)
+      console.log('Analysis worklet running:', analysisFrontEnd.value)
+    } catch (err) {
+      console.warn('Analysis worklet unavailable, polling analysers instead:', err)
+      analysisNode = null
+      analysisReceiver = null
+    }
+  }
+  
+  // Feed a source into the analysis worklet, or into every fallback analysis node
+  // (analysers, meter, waveform capture) when the worklet isn't running
+  const connectAnalysis = (node: Tone.ToneAudioNode) => {
+    analysisInputs.add(node)
+    if (analysisNode) {
+      node.connect(analysisNode)
+      return
+    }
+    node.connect(analyser)
+    node.connect(enhancedAnalyser)
+    node.connect(meter)
+    node.connect(waveform)
+    if (splitter) node.connect(splitter)
+  }
+  
+  // Switch the spectrum front end. The processor's options are fixed at construction, so a
+  // running worklet is replaced and every analysed source is moved over to the new one.
+  const setAnalysisFrontEnd = async (next: AnalysisFrontEnd) => {
+    analysisFrontEnd.value = { ...next }
+    saveAnalysisFrontEnd(analysisFrontEnd.value)
+    if (!isInitialized.value) return
+    if (!analysisNode) {
+      enhancedAnalyser.size = next.fftSize >> 1
+      for (const a of channelAnalysers) a.size = next.fftSize >> 1
+      return
+    }
+    const previous = analysisNode
+    analysisReceiver?.dispose()
+    analysisReceiver = null
+    analysisNode = null
+    await startAnalysisWorklet()
+    for (const node of analysisInputs) {
+      try { node.disconnect(previous) } catch {}
+      connectAnalysis(node)
+    }
+  }
+  
+  // Input device enumeration
+  // Labels are empty until microphone permission has been granted once,
+  // so the list is refreshed again after the first successful open.
+  const refreshInputDevices = async () => {
+    if (!Tone.UserMedia.supported) return
+    try {
+      const devices = await Tone.UserMedia.enumerateDevices()
+      inputDevices.value = devices.map((d, i) => ({
+        deviceId: d.deviceId,
+        label: d.label || `Input ${i + 1}`,
+        groupId: d.groupId,
+      }))
+      
+      // The active device went away: fall back to the default input
+      const selected = selectedDeviceId.value
+      const preferred = loadPreferredInputDevice()
+      const hasLabels = devices.some(d => d.label)
+      if (selected && hasLabels && !devices.some(d => d.deviceId === selected)) {
+        console.log('Selected input device disappeared, falling back to default')
+        // Keep the stored preference so the device is picked again when it comes back
+        selectedDeviceId.value = ''
+        if (isMicActive.value) {
+          await openMicrophone('')
+        }
+      } else if (preferred && selected !== preferred && devices.some(d => d.deviceId === preferred)) {
+        // The preferred device is back (plugged in again): switch to it
+        console.log('Preferred input device reappeared, switching back')
+        selectedDeviceId.value = preferred
+        if (isMicActive.value) {
+          await openMicrophone(preferred)
+        }
+      }
+    } catch (err) {
+      console.error('Device enumeration failed:', err)
+    }
+  }
+  
+  // (Re)open the mic on a device. Tone.UserMedia keeps its output node across
+  // close/open, so the analyser and meter connections stay intact.
+  const openMicrophone = async (deviceId: string) => {
+    await mic.open(deviceId || undefined)
+  }
+  
+  const selectInputDevice = async (deviceId: string) => {
+    selectedDeviceId.value = deviceId
+    savePreferredInputDevice(deviceId)
+    
+    if (!isMicActive.value) return
+    try {
+      await openMicrophone(deviceId)
+      error.value = null
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to switch input device'
+      console.error('Input device switch failed:', err)
+    }
+  }
+  
   // Microphone controls
   const startMicrophone = async () => {
     if (!isInitialized.value) {
@@ -78,16 +371,17 @@ export function useSimpleAudioManager() {
     }
     
     try {
-      await mic.open()
+      await openMicrophone(selectedDeviceId.value)
       isMicActive.value = true
       currentSource.value = mic
       
-      // Connect mic to both analysers and destination
-      mic.connect(analyser)
-      mic.connect(enhancedAnalyser)
-      mic.connect(meter)
+      // Connect mic to the analysis nodes and destination
+      connectAnalysis(mic)
       mic.toDestination()
       
+      // Permission is granted now, so device labels are available
+      await refreshInputDevices()
+      
       error.value = null
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to start microphone'
@@ -109,9 +403,107 @@ export function useSimpleAudioManager() {
     }
   }
   
-  // File upload and playback
-  const handleFileUpload = async (file: File | null) => {
-    console.log('handleFileUpload called with:', file?.name || 'null')
+  // Decode a queue item into a deck (object URLs are per deck and revoked on reuse)
+  const decodeIntoDeck = async (index: number, item: QueueItem) => {
+    const deck = decks[index]
+    if (deck.itemId === item.id && deck.player.loaded) return
+    deck.player.stop()
+    if (deck.url) { URL.revokeObjectURL(deck.url); deck.url = null }
+    deck.itemId = null
+    const url = URL.createObjectURL(item.file)
+    deck.url = url
+    console.log('Loading', item.name, 'into deck', index)
+    await deck.player.load(url)
+    deck.itemId = item.id
+  }
+  
+  // Queued behind any load in flight, so two never swap a deck's buffer under each other
+  const loadIntoDeck = (index: number, item: QueueItem) => {
+    const load = deckLoads.then(() => decodeIntoDeck(index, item))
+    deckLoads = load.catch(() => {})
+    return load
+  }
+  
+  // Make a deck the audible, current one
+  const activateDeck = (index: number, item: QueueItem) => {
+    activeDeck = index
+    player = decks[index].player
+    currentSource.value = player
+    audioFile.value = item.file
+    playlist.select(item.id)
+    duration.value = player.buffer?.duration || 0
+    trackVersion.value++
+    const buffer = player.buffer?.get()
+    if (buffer) analyzeTrackOffline(item, buffer)
+  }
+  
+  // Build (or reuse) the feature timeline for a track in a worker, reporting progress
+  const analyzeTrackOffline = (item: QueueItem, buffer: AudioBuffer) => {
+    cancelTrackAnalysis()
+    const cached = timelineCache.get(item.id)
+    timeline.value = cached ?? null
+    if (cached) return
+    
+    // Mono downmix; the copy is transferred to the worker
+    const samples = new Float32Array(buffer.length)
+    const gain = 1 / buffer.numberOfChannels
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c)
+      for (let i = 0; i < data.length; i++) samples[i] += data[i] * gain
+    }
+    
+    const worker = new TimelineWorker()
+    timelineWorker = worker
+    timelineProgress.value = 0
+    const startedAt = performance.now()
+    worker.onmessage = (e: MessageEvent<TimelineMessage>) => {
+      const msg = e.data
+      if (timelineWorker !== worker) return
+      if (msg.type === 'progress') {
+        timelineProgress.value = msg.value
+        return
+      }
+      cancelTrackAnalysis()
+      if (msg.type === 'done') {
+        timelineCache.set(item.id, msg.timeline)
+        timeline.value = msg.timeline
+        console.log('Track analysed:', item.name, `${((performance.now() - startedAt) / 1000).toFixed(1)}s,`,
+          msg.timeline.bpm.toFixed(1), 'BPM,', msg.timeline.sections.length, 'sections,', msg.timeline.drops.length, 'drops')
+      } else {
+        console.warn('Track analysis failed:', msg.message)
+      }
+    }
+    const request: TimelineRequest = { samples, sampleRate: buffer.sampleRate }
+    worker.postMessage(request, [samples.buffer])
+  }
+  
+  const cancelTrackAnalysis = () => {
+    timelineWorker?.terminate()
+    timelineWorker = null
+    timelineProgress.value = null
+  }
+  
+  // Load a queue item into the active deck, stopped and ready for playback.
+  // False when another track was picked while it loaded
+  const loadQueueItem = async (item: QueueItem) => {
+    const token = ++deckLoadToken
+    cancelHandover()
+    for (const deck of decks) deck.player.stop()
+    await loadIntoDeck(activeDeck, item)
+    if (token !== deckLoadToken) return false
+    resetDeckGains()
+    activateDeck(activeDeck, item)
+    transport.load(duration.value)
+    isPlaying.value = false
+    stopClockUpdates()
+    syncClock()
+    console.log('Track ready:', item.name, 'duration:', duration.value)
+    return true
+  }
+  
+  // File upload and playback: files are appended to the queue; null clears it
+  const handleFileUpload = async (files: File[] | null) => {
+    console.log('handleFileUpload called with:', files ? files.map(f => f.name) : 'null')
     
     if (!isInitialized.value) {
       console.log('Audio not initialized, initializing...')
@@ -119,74 +511,35 @@ export function useSimpleAudioManager() {
     }
     
     try {
-      // Stop any current playback
-      if (isPlaying.value) {
-        console.log('Stopping current playback...')
-        await stopPlayback()
-      }
-      
-      if (file) {
-        console.log('Loading file:', file.name, 'type:', file.type)
-        audioFile.value = file
-        
-        // Load and play the file
-        // Revoke previously loaded URL if any
-        if (fileUrl) { URL.revokeObjectURL(fileUrl); fileUrl = null }
-        const url = URL.createObjectURL(file)
-        fileUrl = url
-        console.log('Created object URL:', url)
-        
-        await player.load(url)
-        console.log('Player loaded successfully')
-        console.log('Player state:', player.state)
-        console.log('Player duration:', player.buffer?.duration)
-        
-        // Update duration
-        duration.value = player.buffer?.duration || 0
-        
-        currentSource.value = player
-        console.log('Set current source to player')
+      if (files && files.length) {
+        const added = playlist.add(files)
+        console.log('Queued', added.length, 'file(s), queue length:', playlist.items.value.length)
         
-        // Ensure player is connected to analyser and destination
-        player.connect(analyser)
-        player.connect(enhancedAnalyser)
-        player.connect(meter)
-        console.log('Player connected to analysers')
-        // Also connect player directly to destination to ensure audio output
-        player.toDestination()
-        console.log('Player connected to destination')
-        console.log('Player routing: player -> analysers + destination')
-        
-        // Wait a bit for the buffer to be fully loaded
-        await new Promise(resolve => setTimeout(resolve, 100))
-        console.log('Player buffer after delay:', !!player.buffer)
-        console.log('Player buffer duration:', player.buffer?.duration)
-        
-        // Ensure player is stopped and ready for playback
-        player.stop()
-        isPlaying.value = false
-        currentTime.value = 0
-        
-        console.log('File loaded successfully, ready for playback')
-        console.log('Player state after setup:', player.state, 'isPlaying:', isPlaying.value)
-      } else {
-        console.log('Clearing file...')
-        // Clear the file
+        // Nothing loaded yet: make the first new track current
+        if (!playlist.current.value) {
+          await loadQueueItem(added[0])
+        }
+      } else if (!files) {
+        console.log('Clearing queue...')
+        deckLoadToken++ // loads in flight are for tracks that are gone
+        cancelHandover()
+        for (const deck of decks) {
+          deck.player.stop()
+          if (deck.url) { URL.revokeObjectURL(deck.url); deck.url = null }
+          deck.itemId = null
+        }
+        playlist.clear()
+        cancelTrackAnalysis()
+        timelineCache.clear()
+        timeline.value = null
         audioFile.value = null
         currentSource.value = null
         duration.value = 0
-        currentTime.value = 0
-        
-        // Clear time update timer
-        if (timeUpdateTimer) {
-          clearInterval(timeUpdateTimer)
-          timeUpdateTimer = null
-        }
+        isPlaying.value = false
         
-        if (player) {
-          player.stop()
-        }
-        if (fileUrl) { URL.revokeObjectURL(fileUrl); fileUrl = null }
+        stopClockUpdates()
+        transport.load(0)
+        syncClock()
       }
       
       error.value = null
@@ -196,6 +549,134 @@ export function useSimpleAudioManager() {
     }
   }
   
+  // Mirror the transport into reactive state
+  const syncClock = () => {
+    currentTime.value = transport.position()
+    transportState.value = transport.state
+    loopEnabled.value = transport.loop
+    loopRegion.value = transport.region
+  }
+  
+  // Per-frame clock reads while playing; also detects end of track and
+  // drives the queue (preload, scheduled handover, auto-advance)
+  const startClockUpdates = () => {
+    if (clockRafId !== null) return
+    const step = () => {
+      if (handover && Tone.getContext().currentTime >= handover.startAt) {
+        commitHandover()
+      }
+      if (transport.tick()) {
+        console.log('⏹️ Track ended')
+        player.stop()
+        isPlaying.value = false
+        // Preload did not make it in time: advance with a gap rather than stop
+        const next = playlist.peekNext()
+        if (next) playQueueItem(next.id)
+      } else {
+        maybeScheduleNext()
+      }
+      syncClock()
+      clockRafId = transport.state === 'playing' ? requestAnimationFrame(step) : null
+    }
+    clockRafId = requestAnimationFrame(step)
+  }
+  
+  const stopClockUpdates = () => {
+    if (clockRafId !== null) {
+      cancelAnimationFrame(clockRafId)
+      clockRafId = null
+    }
+  }
+  
+  // Gains back to "active deck only" (cancels any crossfade ramps)
+  const resetDeckGains = () => {
+    decks.forEach((deck, i) => {
+      deck.gain.gain.cancelScheduledValues(0)
+      deck.gain.gain.value = i === activeDeck ? 1 : 0
+    })
+  }
+  
+  // Drop a scheduled-but-not-yet-sounding next track
+  const cancelHandover = () => {
+    if (!handover) return
+    decks[handover.deck].player.stop()
+    handover = null
+    resetDeckGains()
+  }
+  
+  // Schedule `item` on the idle deck at context time `startAt`, fading over `fade` seconds
+  const scheduleHandover = (deckIndex: number, item: QueueItem, startAt: number, fade: number) => {
+    const incoming = decks[deckIndex]
+    const outgoing = decks[activeDeck]
+    incoming.player.loop = false
+    incoming.player.start(startAt, 0)
+    incoming.gain.gain.cancelScheduledValues(0)
+    outgoing.gain.gain.cancelScheduledValues(0)
+    if (fade > 0) {
+      incoming.gain.gain.setValueAtTime(0, startAt)
+      incoming.gain.gain.linearRampToValueAtTime(1, startAt + fade)
+      outgoing.gain.gain.setValueAtTime(1, startAt)
+      outgoing.gain.gain.linearRampToValueAtTime(0, startAt + fade)
+      outgoing.player.stop(startAt + fade)
+    } else {
+      // Gapless: the incoming buffer starts on the exact sample the outgoing one ends
+      incoming.gain.gain.setValueAtTime(1, startAt)
+      outgoing.gain.gain.setValueAtTime(0, startAt)
+    }
+    handover = { deck: deckIndex, item, startAt, fade }
+    console.log('Scheduled', item.name, 'on deck', deckIndex, 'at', startAt.toFixed(3), 'fade', fade)
+  }
+  
+  // The scheduled track started sounding: it becomes the current track
+  const commitHandover = () => {
+    if (!handover) return
+    const { deck, item, startAt } = handover
+    handover = null
+    activateDeck(deck, item)
+    transport.load(duration.value)
+    transport.play(startAt, 0)
+  }
+  
+  // Near the end of the current track, decode the next one and schedule it
+  const maybeScheduleNext = () => {
+    if (handover || preloading || transport.loop || transport.state !== 'playing') return
+    const next = playlist.peekNext()
+    if (!next) return
+    const fade = Math.min(crossfadeSec.value, transport.duration / 2)
+    const remaining = transport.duration - transport.position()
+    if (remaining > fade + PRELOAD_LEAD_SEC) return
+    
+    preloading = true
+    const idle = 1 - activeDeck
+    const token = deckLoadToken
+    loadIntoDeck(idle, next)
+      .then(() => {
+        // Paused, sought or edited while decoding: try again on a later frame
+        if (token !== deckLoadToken || transport.state !== 'playing' || handover || playlist.peekNext()?.id !== next.id) return
+        const now = Tone.getContext().currentTime
+        const rem = transport.duration - transport.position()
+        const f = Math.min(fade, rem)
+        scheduleHandover(idle, next, now + Math.max(0.05, rem - f), f)
+      })
+      .catch(err => console.error('Preloading next track failed:', err))
+      .finally(() => { preloading = false })
+  }
+  
+  // Start the player at a track position, scheduled on the audio clock
+  const startPlayerAt = (position: number) => {
+    cancelHandover()
+    resetDeckGains()
+    const region = transport.region
+    player.loop = transport.loop
+    player.loopStart = region ? region.start : 0
+    player.loopEnd = region ? region.end : 0
+    const at = Tone.now()
+    transport.play(at, position)
+    player.start(at, transport.position())
+    syncClock()
+    startClockUpdates()
+  }
+  
   const startPlayback = async () => {
     console.log('🎯 startPlayback called - isStartingPlayback:', isStartingPlayback)
     
@@ -244,8 +725,8 @@ export function useSimpleAudioManager() {
           console.log('Player buffer ready:', !!player.buffer)
           console.log('Player buffer duration:', player.buffer?.duration)
           
-          // Try starting with explicit parameters
-          player.start(0, 0, duration.value)
+          // Start from the top, anchored to the audio clock
+          startPlayerAt(0)
           
           console.log('Player.start() completed successfully')
           console.log('Player state after start:', player.state)
@@ -266,14 +747,6 @@ export function useSimpleAudioManager() {
         }
         
         console.log('Player started successfully')
-        
-        // Start time update timer
-        currentTime.value = 0
-        timeUpdateTimer = window.setInterval(() => {
-          if (isPlaying.value && duration.value > 0) {
-            currentTime.value = Math.min(currentTime.value + 0.1, duration.value)
-          }
-        }, 100)
       }
       isPlaying.value = true
       console.log('Set isPlaying to true')
@@ -293,15 +766,16 @@ export function useSimpleAudioManager() {
     try {
       const isPlayerSource = currentSource.value && currentSource.value.constructor?.name?.includes('Player')
       if (isPlayerSource) {
-        player.stop()
+        cancelHandover()
+        // after a handover the outgoing deck may still be fading out
+        for (const deck of decks) deck.player.stop()
+        resetDeckGains()
+        transport.pause()
       }
       isPlaying.value = false
       
-      // Pause time update timer (don't clear it, just stop updating)
-      if (timeUpdateTimer) {
-        clearInterval(timeUpdateTimer)
-        timeUpdateTimer = null
-      }
+      stopClockUpdates()
+      syncClock()
       
       error.value = null
     } catch (err) {
@@ -316,16 +790,16 @@ export function useSimpleAudioManager() {
     try {
       const isPlayerSource = currentSource.value && currentSource.value.constructor?.name?.includes('Player')
       if (isPlayerSource) {
-        player.stop()
+        cancelHandover()
+        // after a handover the outgoing deck may still be fading out
+        for (const deck of decks) deck.player.stop()
+        resetDeckGains()
+        transport.stop()
       }
       isPlaying.value = false
       
-      // Clear time update timer
-      if (timeUpdateTimer) {
-        clearInterval(timeUpdateTimer)
-        timeUpdateTimer = null
-      }
-      currentTime.value = 0
+      stopClockUpdates()
+      syncClock()
       
       error.value = null
     } catch (err) {
@@ -337,10 +811,14 @@ export function useSimpleAudioManager() {
   // Get audio data for visualization
   let lastAudioLogTime: number | null = null
   let lastPlayerStateCheck: number | null = null
-  const getAudioData = (): { fft: Float32Array, rms: Float32Array } => {
+  // Returned every frame; reused so polling doesn't allocate (arrays are overwritten next call)
+  type AudioFrame = { fft: Float32Array, rms: Float32Array, waveform: Float32Array, channels: Float32Array[], channelFft: Float32Array[] }
+  const emptyFrame: AudioFrame = { fft: new Float32Array(), rms: new Float32Array(), waveform: new Float32Array(), channels: [], channelFft: [] }
+  const audioFrame: AudioFrame = { fft: new Float32Array(), rms: new Float32Array(1), waveform: new Float32Array(), channels: [], channelFft: [] }
+  const getAudioData = (): AudioFrame => {
     if (!enhancedAnalyser) {
       console.log('No enhanced analyser available')
-      return { fft: new Float32Array(), rms: new Float32Array() }
+      return emptyFrame
     }
 
     // Use enhanced analyser for better frequency resolution
@@ -349,7 +827,7 @@ export function useSimpleAudioManager() {
     
     // Handle type conversion properly - Tone.js analyser returns number[] or Float32Array
     let fftArray: Float32Array
-    let rmsArray: Float32Array
+    const rmsArray = audioFrame.rms
     
     // Convert FFT data to Float32Array
     if (Array.isArray(fftData)) {
@@ -362,7 +840,7 @@ export function useSimpleAudioManager() {
     
     // Convert RMS data to Float32Array - Tone.Meter returns a single number
     const rmsNum = typeof rmsValue === 'number' ? rmsValue : Array.isArray(rmsValue) ? Number(rmsValue[0]) : Number(rmsValue)
-    rmsArray = new Float32Array([isFinite(rmsNum) ? rmsNum : 0])
+    rmsArray[0] = isFinite(rmsNum) ? rmsNum : 0
     
     // Throttle logging to once per second
     const now = Date.now()
@@ -401,7 +879,39 @@ export function useSimpleAudioManager() {
       lastPlayerStateCheck = now
     }
     
-    return { fft: fftArray, rms: rmsArray }
+    // Tone's analysers hand back their internal buffers, so these don't allocate either
+    audioFrame.fft = fftArray
+    audioFrame.waveform = waveform ? waveform.getValue() : emptyFrame.waveform
+    audioFrame.channels.length = channelWaveforms.length
+    for (let i = 0; i < channelWaveforms.length; i++) audioFrame.channels[i] = channelWaveforms[i].getValue()
+    audioFrame.channelFft.length = channelAnalysers.length
+    for (let i = 0; i < channelAnalysers.length; i++) audioFrame.channelFft[i] = channelAnalysers[i].getValue() as Float32Array
+    
+    return audioFrame
+  }
+  
+  // Frames for the visualizer: drained from the worklet, or one polled frame per call as a fallback
+  const pollFrame: AnalysisFrame = { t: 0, sampleRate: 0, fft: new Float32Array(), log: null, rmsDb: -Infinity, waveform: new Float32Array(), channels: [], channelFft: [], onsets: null }
+  const analysis: AnalysisSource = {
+    drain(visit) {
+      if (analysisReceiver) return analysisReceiver.drain(visit)
+      if (!isInitialized.value) return 0
+      const data = getAudioData()
+      if (!data.fft.length) return 0
+      pollFrame.t = performance.now()
+      pollFrame.sampleRate = Tone.getContext().sampleRate
+      pollFrame.fft = data.fft
+      pollFrame.rmsDb = data.rms[0] ?? -Infinity
+      pollFrame.waveform = data.waveform
+      pollFrame.channels = data.channels
+      pollFrame.channelFft = data.channelFft
+      visit(pollFrame)
+      return 1
+    },
+    configure(tuning) {
+      onsetTuning = tuning
+      analysisReceiver?.configure(tuning)
+    },
   }
   
   // Cleanup
@@ -412,16 +922,31 @@ export function useSimpleAudioManager() {
     if (isPlaying.value) {
       stopPlayback()
     }
-    if (fileUrl) { URL.revokeObjectURL(fileUrl); fileUrl = null }
+    cancelHandover()
+    for (const deck of decks) {
+      if (deck.url) { URL.revokeObjectURL(deck.url); deck.url = null }
+      deck.itemId = null
+    }
+    playlist.clear()
+    cancelTrackAnalysis()
+    timelineCache.clear()
+    timeline.value = null
     audioFile.value = null
     currentSource.value = null
     
-    // Clear time update timer
-    if (timeUpdateTimer) {
-      clearInterval(timeUpdateTimer)
-      timeUpdateTimer = null
+    if (deviceChangeHandler && navigator.mediaDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', deviceChangeHandler)
+      deviceChangeHandler = null
     }
-    currentTime.value = 0
+    
+    analysisReceiver?.dispose()
+    analysisReceiver = null
+    analysisNode = null
+    analysisInputs.clear()
+    
+    stopClockUpdates()
+    transport.load(0)
+    syncClock()
     duration.value = 0
   }
   
@@ -443,18 +968,12 @@ export function useSimpleAudioManager() {
     
     if (isPlayerSource && !isPlaying.value) {
       console.log('✅ handlePlay conditions met, proceeding...')
-      // If we were paused, we need to restart the player from current time
-      if (currentTime.value > 0) {
-        console.log('🔄 Resuming from current time:', currentTime.value)
+      // Paused (or sought while paused): resume from the transport position.
+      // After the end, the transport restarts from the top (or loop start).
+      if (transport.state === 'paused' || transport.state === 'ended') {
+        console.log('🔄 Resuming from transport position:', transport.position())
         player.stop()
-        player.start(undefined, currentTime.value)
-        
-        // Restart time update timer
-        timeUpdateTimer = window.setInterval(() => {
-          if (isPlaying.value && duration.value > 0) {
-            currentTime.value = Math.min(currentTime.value + 0.1, duration.value)
-          }
-        }, 100)
+        startPlayerAt(transport.position())
         
         isPlaying.value = true
         error.value = null
@@ -486,30 +1005,139 @@ export function useSimpleAudioManager() {
   const handleSeek = (time: number) => {
     const isPlayerSource = currentSource.value && currentSource.value.constructor?.name?.includes('Player')
     if (isPlayerSource && player.buffer) {
-      // Stop current playback
+      if (isPlaying.value) {
+        // Restart the player at the new position
+        player.stop()
+        startPlayerAt(time)
+      } else {
+        // Only move the resume point; a paused track stays paused
+        transport.seek(time)
+        syncClock()
+      }
+    }
+  }
+  
+  // Loop / A–B region controls. Changes while playing restart the player at the
+  // current position so the audio and the transport loop the same way.
+  const applyLoopChange = (change: () => void) => {
+    const wasPlaying = isPlaying.value && transport.state === 'playing'
+    change()
+    if (wasPlaying) {
       player.stop()
-      
-      // Clear existing timer
-      if (timeUpdateTimer) {
-        clearInterval(timeUpdateTimer)
-        timeUpdateTimer = null
+      startPlayerAt(transport.position())
+    } else {
+      syncClock()
+    }
+  }
+  
+  const setLoop = (on: boolean) => {
+    applyLoopChange(() => transport.setLoop(on))
+  }
+  
+  const setLoopPoint = (point: 'a' | 'b') => {
+    const pos = transport.position()
+    const current = transport.region ?? { start: 0, end: transport.duration }
+    const next = point === 'a' ? { start: pos, end: current.end } : { start: current.start, end: pos }
+    applyLoopChange(() => {
+      transport.setRegion(next)
+      if (transport.region) transport.setLoop(true)
+    })
+  }
+  
+  const clearLoopRegion = () => {
+    applyLoopChange(() => transport.setRegion(null))
+  }
+  
+  // Queue controls
+  // Jump to a queue item; while playing this crossfades (or cuts) to it right away
+  const playQueueItem = async (id: string) => {
+    const item = playlist.items.value.find(i => i.id === id)
+    if (!item) return
+    try {
+      const wasPlaying = isPlaying.value
+      if (wasPlaying && crossfadeSec.value > 0 && transport.state === 'playing') {
+        const token = ++deckLoadToken
+        cancelHandover()
+        const idle = 1 - activeDeck
+        await loadIntoDeck(idle, item)
+        if (token !== deckLoadToken) return
+        const fade = crossfadeSec.value
+        scheduleHandover(idle, item, Tone.now(), fade)
+        transport.setLoop(false)
+        startClockUpdates()
+      } else {
+        if (!(await loadQueueItem(item))) return
+        startPlayerAt(0)
+        isPlaying.value = true
       }
-      
-      // Seek to new time and start
-      player.start(undefined, time)
-      currentTime.value = time
-      
-      // Restart timer if we were playing
+      error.value = null
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to play queued track'
+      console.error('Queue playback failed:', err)
+    }
+  }
+  
+  const nextTrack = () => {
+    const next = playlist.peekNext(true)
+    if (next) playQueueItem(next.id)
+  }
+  
+  const previousTrack = () => {
+    // Like most players: restart the track unless we are near its start
+    if (transport.position() > 3) {
+      handleSeek(0)
+      return
+    }
+    const prev = playlist.peekPrevious()
+    if (prev) playQueueItem(prev.id)
+  }
+  
+  const removeQueueItem = async (id: string) => {
+    const wasCurrent = playlist.currentId.value === id
+    if (handover?.item.id === id) cancelHandover()
+    const next = wasCurrent ? playlist.peekNext(true) : null
+    playlist.remove(id)
+    timelineCache.delete(id)
+    if (!wasCurrent) return
+    if (next && next.id !== id) {
+      // the next track takes over; it only starts if the removed one was playing
       if (isPlaying.value) {
-        timeUpdateTimer = window.setInterval(() => {
-          if (isPlaying.value && duration.value > 0) {
-            currentTime.value = Math.min(currentTime.value + 0.1, duration.value)
-          }
-        }, 100)
+        await playQueueItem(next.id)
+        return
+      }
+      try {
+        await loadQueueItem(next)
+        error.value = null
+      } catch (err) {
+        error.value = err instanceof Error ? err.message : 'Failed to load queued track'
+        console.error('Queue load failed:', err)
       }
+    } else {
+      await handleFileUpload(null)
     }
   }
   
+  const moveQueueItem = (from: number, to: number) => {
+    playlist.move(from, to)
+    // Order changed: re-pick the next track
+    cancelHandover()
+  }
+  
+  const setShuffle = (on: boolean) => {
+    playlist.setShuffle(on)
+    cancelHandover()
+  }
+  
+  const setRepeat = (mode: RepeatMode) => {
+    playlist.setRepeat(mode)
+    cancelHandover()
+  }
+  
+  const setCrossfade = (seconds: number) => {
+    crossfadeSec.value = Math.max(0, seconds)
+    saveCrossfade(crossfadeSec.value)
+  }
+  
   return {
     // State
     isInitialized,
@@ -520,6 +1148,22 @@ export function useSimpleAudioManager() {
     error,
     duration,
     currentTime,
+    inputDevices,
+    selectedDeviceId,
+    transportState,
+    loopEnabled,
+    loopRegion,
+    transport,
+    analysis,
+    timeline,
+    timelineProgress,
+    queue: playlist.items,
+    currentQueueId: playlist.currentId,
+    shuffle: playlist.shuffle,
+    repeat: playlist.repeat,
+    crossfadeSec,
+    trackVersion,
+    analysisFrontEnd,
     
     // Computed
     hasAudio,
@@ -529,6 +1173,8 @@ export function useSimpleAudioManager() {
     initialize,
     startMicrophone,
     stopMicrophone,
+    refreshInputDevices,
+    selectInputDevice,
     handleFileUpload,
     startPlayback,
     pausePlayback,
@@ -538,6 +1184,18 @@ export function useSimpleAudioManager() {
     handlePlay,
     handlePause,
     handleStop,
-    handleSeek
+    handleSeek,
+    setLoop,
+    setLoopPoint,
+    clearLoopRegion,
+    playQueueItem,
+    nextTrack,
+    previousTrack,
+    removeQueueItem,
+    moveQueueItem,
+    setShuffle,
+    setRepeat,
+    setCrossfade,
+    setAnalysisFrontEnd
   }
 }
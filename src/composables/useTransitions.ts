@@ -0,0 +1,104 @@
+import { onUnmounted, ref, watch, type Ref } from 'vue'
+import type { ScenePreset } from '../engine/presets'
+import { TRANSITION_DEFAULTS, sceneMorph, type TransitionOptions } from '../engine/transitions'
+
+const TRANSITIONS_STORAGE_KEY = 'reveri.transitions'
+// How often the transition's progress is read back from the morph
+const PROGRESS_POLL_MS = 100
+
+type TransitionSettings = Required<TransitionOptions>
+type StoredTransitions = { settings: TransitionSettings; queue: string[] }
+
+function loadTransitions(): StoredTransitions {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TRANSITIONS_STORAGE_KEY) || 'null')
+    const settings = { ...TRANSITION_DEFAULTS }
+    if (raw?.settings && typeof raw.settings === 'object') {
+      for (const key of Object.keys(settings) as (keyof TransitionSettings)[]) {
+        if (typeof raw.settings[key] === typeof settings[key]) (settings as Record<string, unknown>)[key] = raw.settings[key]
+      }
+    }
+    const queue = Array.isArray(raw?.queue) ? raw.queue.filter((id: unknown): id is string => typeof id === 'string') : []
+    return { settings, queue }
+  } catch {
+    return { settings: { ...TRANSITION_DEFAULTS }, queue: [] }
+  }
+}
+
+function saveTransitions(stored: StoredTransitions) {
+  try {
+    localStorage.setItem(TRANSITIONS_STORAGE_KEY, JSON.stringify(stored))
+  } catch {}
+}
+
+// Timed scene transitions (see transitions.ts): the morph settings and the scene queue,
+// kept by scene id and handed to the morph as the scenes themselves whenever either changes.
+// The morph runs in the host's render loop; its progress is polled for display.
+export function useTransitions(scenes: Ref<ScenePreset[]>) {
+  // State
+  const stored = loadTransitions()
+  const settings = ref<TransitionSettings>(stored.settings)
+  const queue = ref<string[]>(stored.queue)
+  const progress = ref<number | null>(null)
+  const queueIndex = ref(-1)
+  const targetName = ref<string | null>(null)
+
+  const persist = () => saveTransitions({ settings: settings.value, queue: queue.value })
+
+  watch(settings, s => sceneMorph.configure(s), { immediate: true })
+  watch([scenes, queue], () => {
+    sceneMorph.setQueue(queue.value.map(id => scenes.value.find(s => s.id === id)).filter((s): s is ScenePreset => !!s))
+  }, { immediate: true, deep: true })
+
+  const pollTimer = setInterval(() => {
+    progress.value = sceneMorph.progress()
+    queueIndex.value = sceneMorph.queueIndex()
+    targetName.value = sceneMorph.target()?.name ?? null
+  }, PROGRESS_POLL_MS)
+  onUnmounted(() => clearInterval(pollTimer))
+
+  // Methods
+  const updateSettings = (patch: TransitionOptions) => {
+    settings.value = { ...settings.value, ...patch }
+    persist()
+  }
+
+  const morphTo = (scene: ScenePreset) => sceneMorph.start(scene)
+
+  const addToQueue = (id: string) => {
+    queue.value = [...queue.value, id]
+    persist()
+  }
+
+  const removeFromQueue = (index: number) => {
+    queue.value = queue.value.filter((_, i) => i !== index)
+    persist()
+  }
+
+  const moveInQueue = (index: number, delta: number) => {
+    const to = index + delta
+    if (to < 0 || to >= queue.value.length) return
+    const next = queue.value.slice()
+    ;[next[index], next[to]] = [next[to], next[index]]
+    queue.value = next
+    persist()
+  }
+
+  return {
+    // State
+    settings,
+    queue,
+    progress,
+    queueIndex,
+    targetName,
+
+    // Methods
+    updateSettings,
+    morphTo,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    next: () => sceneMorph.next(),
+    skip: () => sceneMorph.skip(),
+  }
+}
@@ -0,0 +1,256 @@
+// Audio-thread analysis: the frame protocol shared by analysis.worklet.ts and the UI side.
+// The worklet analyses every `hop` samples in audio time and posts one frame per hop,
+// stamped with the sample position it ends on. The host drains all frames captured since
+// the last render and runs the extractor once per frame, so Features advance in audio time
+// at a fixed rate instead of whenever the render loop happens to poll.
+//
+// Frames travel as transferred Float32Arrays; the receiver posts each one back once it has
+// been visited, so after start-up the two sides just recycle a small pool of buffers.
+// A null message tells the processor to stop; an OnsetTuning message retunes its onsets.
+//
+// The worklet's onsets stand in for the extractor's own, so they follow the extractor's flux
+// mapping and thresholds: the host hands the extractor's OnsetTuning to the source whenever
+// it changes, and sources that detect onsets pass it on to their processor.
+//
+// Frame layout: [rmsDb, (hit, strength, lastHitMs) × low/mid/high, fft dB bins…,
+//                log-spectrum dB bins… (multires / cqt only), mono waveform…, per-channel waveforms…]
+//
+// Front ends (`spectrum`): 'fft' is the AnalyserNode-style spectrum alone, whose bins are
+// sampleRate / fftSize apart (47 Hz at 1024 points / 48 kHz, so 20–160 Hz gets three of them).
+// 'multires' and 'cqt' also send a log-frequency spectrum on a binsPerOctave grid, built from a
+// long transform where it matters (see spectrum.ts); the extractor resamples that into binsLog
+// and keeps using the linear one for named bands, chroma and timbre.
+//
+// Every captured channel also gets its own fftSize-point spectrum, for the extractor's stereo
+// features (per-channel bins and bands, balance); the mono spectrum stays the sum's.
+
+import type { BandOnsetOptions, BandOnsets } from './onsets';
+import type { LogRange } from './bins';
+import type { LogSpectrum } from './spectrum';
+
+export const ANALYSIS_PROCESSOR = 'reveri-analysis';
+
+export type SpectrumMode = 'fft' | 'multires' | 'cqt';
+
+export type AnalysisOptions = Partial<{
+  fftSize: number;        // 1024 (512 bins, same as Tone.Analyser size 512)
+  hop: number;            // 512 samples between frames (~10.7 ms at 48 kHz)
+  smoothing: number;      // 0.08 AnalyserNode-style magnitude smoothing
+  meterSmoothing: number; // 0.2 Tone.Meter-style level decay, per 60 Hz frame
+  waveformSize: number;   // 2048 samples of time-domain capture
+  channels: number;       // 2 captured channels (mono sources are upmixed)
+  maxPending: number;     // 64 frames queued before the oldest are dropped (hidden tab)
+
+  // front end
+  spectrum: SpectrumMode; // 'fft'
+  lowFftSize: number;     // 8192 multires: long transform for the lows
+  splitHz: number;        // 250 multires: crossover from the long to the short transform
+  maxWindow: number;      // 8192 cqt: longest kernel in samples (a power of two)
+  binsPerOctave: number;  // 24 log spectrum resolution (multires / cqt)
+  logMinHz: number;       // 20 log spectrum range, matching the extractor's fMin / fMax
+  logMaxHz: number;       // 8000
+
+  // onset flux, on the extractor's binsLogRaw grid; the host replaces these with the
+  // extractor's (OnsetTuning)
+  fluxBins: number;       // 128 log bins (the extractor's logBins)
+  fluxMinHz: number;      // 20 (its fMin)
+  fluxMaxHz: number;      // 8000 (its fMax)
+  spatialSmooth: boolean; // true
+  spatialKernel: [number, number, number]; // [0.25, 0.5, 0.25]
+  dbMin: number;          // -100
+  dbMax: number;          // -30
+  dbGamma: number;        // 1.3
+  onsets: { low: BandOnsetOptions; mid: BandOnsetOptions; high: BandOnsetOptions };
+}>;
+
+const DEFAULTS: Required<AnalysisOptions> = {
+  fftSize: 1024,
+  hop: 512,
+  smoothing: 0.08,
+  meterSmoothing: 0.2,
+  waveformSize: 2048,
+  channels: 2,
+  maxPending: 64,
+  spectrum: 'fft',
+  lowFftSize: 8192,
+  splitHz: 250,
+  maxWindow: 8192,
+  binsPerOctave: 24,
+  logMinHz: 20,
+  logMaxHz: 8000,
+  fluxBins: 128,
+  fluxMinHz: 20,
+  fluxMaxHz: 8000,
+  spatialSmooth: true,
+  spatialKernel: [0.25, 0.5, 0.25],
+  dbMin: -100,
+  dbMax: -30,
+  dbGamma: 1.3,
+  onsets: {
+    low: { k: 1.8, minIntervalMs: 120, windowMs: 1000, floor: 0.002 },
+    mid: { k: 2.0, minIntervalMs: 100, windowMs: 1000, floor: 0.002 },
+    high: { k: 2.0, minIntervalMs: 60, windowMs: 1000, floor: 0.002 },
+  },
+};
+
+// Onset bands in Hz, matching the extractor's low/mid/high summary bands
+export const ONSET_BANDS_HZ: ReadonlyArray<readonly [number, number]> = [[20, 160], [160, 2000], [2000, 8000]];
+
+// The options the onset detector reads, retunable on a running processor
+export type OnsetTuning = Pick<Required<AnalysisOptions>,
+  'fluxBins' | 'fluxMinHz' | 'fluxMaxHz' | 'spatialSmooth' | 'spatialKernel' | 'dbMin' | 'dbMax' | 'dbGamma' | 'onsets'>;
+
+// Per-band onset options are copies, so a processor can retune its own in place
+export function resolveAnalysisOptions(opts: AnalysisOptions = {}): Required<AnalysisOptions> {
+  const o = DEFAULTS.onsets;
+  return {
+    ...DEFAULTS,
+    ...opts,
+    onsets: { low: { ...o.low, ...opts.onsets?.low }, mid: { ...o.mid, ...opts.onsets?.mid }, high: { ...o.high, ...opts.onsets?.high } },
+  };
+}
+
+export type FrameLayout = {
+  bins: number;
+  logBins: number;  // 0 in 'fft' mode
+  fft: number;      // offsets into the frame
+  log: number;
+  waveform: number;
+  channels: number;
+  channelFft: number;
+  length: number;
+};
+
+const HEADER = 10;
+
+export function frameLayout(cfg: Required<AnalysisOptions>): FrameLayout {
+  const bins = cfg.fftSize >> 1;
+  const logBins = cfg.spectrum === 'fft' ? 0 : Math.round(cfg.binsPerOctave * Math.log2(cfg.logMaxHz / cfg.logMinHz)) + 1;
+  const W = cfg.waveformSize;
+  const waveform = HEADER + bins + logBins;
+  return {
+    bins,
+    logBins,
+    fft: HEADER,
+    log: HEADER + bins,
+    waveform,
+    channels: waveform + W,
+    channelFft: waveform + W * (1 + cfg.channels),
+    length: waveform + W * (1 + cfg.channels) + bins * cfg.channels,
+  };
+}
+
+// Frequency span of the log spectrum (the top is clamped to Nyquist)
+export function logSpectrumRange(cfg: Required<AnalysisOptions>, sampleRate: number): LogRange {
+  const fMax = Math.min(cfg.logMaxHz, sampleRate * 0.5);
+  return { fMin: Math.min(cfg.logMinHz, fMax * 0.5), fMax };
+}
+
+// What the worklet posts: `frame` is the sample position at the end of the hop
+export type AnalysisMessage = { frame: number; data: Float32Array };
+
+// What the worklet receives: a consumed buffer, new onset options, or null to stop
+export type ProcessorMessage = Float32Array | OnsetTuning | null;
+
+export type AnalysisFrame = {
+  t: number;                  // ms on the audio clock (end of the analysed hop)
+  sampleRate: number;
+  fft: Float32Array;          // dB per bin, 0 Hz .. Nyquist
+  log: LogSpectrum | null;    // dB on a log-frequency grid (multires / cqt front ends), else null
+  rmsDb: number;
+  waveform: Float32Array;     // mono, most recent samples last
+  channels: Float32Array[];   // per-channel captures (empty when unavailable)
+  channelFft: Float32Array[]; // per-channel dB spectra on the fft grid (empty when unavailable)
+  onsets: BandOnsets | null;  // onsets detected by the source itself, null if it doesn't
+};
+
+// Anything the host can pull analysis frames from (the worklet receiver or a polling fallback).
+// drain() visits every frame captured since the last call, oldest first, and returns the count.
+// A frame and its arrays are only valid inside visit.
+// configure() hands over the extractor's onset options, for sources that detect onsets.
+export type AnalysisSource = {
+  drain(visit: (frame: AnalysisFrame) => void): number;
+  configure?(tuning: OnsetTuning): void;
+};
+
+export function createAnalysisReceiver(port: MessagePort, sampleRate: number, opts: AnalysisOptions = {}) {
+  const cfg = resolveAnalysisOptions(opts);
+  const L = frameLayout(cfg);
+  const pending: AnalysisMessage[] = [];
+
+  const frame: AnalysisFrame = {
+    t: 0,
+    sampleRate,
+    fft: new Float32Array(0),
+    log: L.logBins ? { db: new Float32Array(0), range: logSpectrumRange(cfg, sampleRate) } : null,
+    rmsDb: -Infinity,
+    waveform: new Float32Array(0),
+    channels: [],
+    channelFft: [],
+    onsets: {
+      low: { hit: false, strength: 0, lastHitMs: -Infinity },
+      mid: { hit: false, strength: 0, lastHitMs: -Infinity },
+      high: { hit: false, strength: 0, lastHitMs: -Infinity },
+    },
+  };
+
+  // hand the buffer back to the worklet's pool
+  function recycle(m: AnalysisMessage) {
+    port.postMessage(m.data, [m.data.buffer]);
+  }
+
+  function decode(m: AnalysisMessage) {
+    const d = m.data;
+    frame.t = (m.frame / sampleRate) * 1000;
+    frame.rmsDb = d[0];
+    const o = frame.onsets!;
+    o.low.hit = d[1] > 0; o.low.strength = d[2]; o.low.lastHitMs = d[3];
+    o.mid.hit = d[4] > 0; o.mid.strength = d[5]; o.mid.lastHitMs = d[6];
+    o.high.hit = d[7] > 0; o.high.strength = d[8]; o.high.lastHitMs = d[9];
+    frame.fft = d.subarray(L.fft, L.fft + L.bins);
+    if (frame.log) frame.log.db = d.subarray(L.log, L.log + L.logBins);
+    frame.waveform = d.subarray(L.waveform, L.waveform + cfg.waveformSize);
+    frame.channels.length = cfg.channels;
+    for (let c = 0; c < cfg.channels; c++) {
+      const off = L.channels + c * cfg.waveformSize;
+      frame.channels[c] = d.subarray(off, off + cfg.waveformSize);
+    }
+    frame.channelFft.length = cfg.channels;
+    for (let c = 0; c < cfg.channels; c++) {
+      const off = L.channelFft + c * L.bins;
+      frame.channelFft[c] = d.subarray(off, off + L.bins);
+    }
+  }
+
+  port.onmessage = (e: MessageEvent<AnalysisMessage>) => {
+    pending.push(e.data);
+    // nobody is draining (e.g. the tab is hidden and rAF has stopped): keep only the newest
+    while (pending.length > cfg.maxPending) recycle(pending.shift()!);
+  };
+
+  function drain(visit: (frame: AnalysisFrame) => void): number {
+    let n = 0;
+    while (pending.length) {
+      const m = pending.shift()!;
+      decode(m);
+      visit(frame);
+      recycle(m);
+      n++;
+    }
+    return n;
+  }
+
+  // retunes the processor's onset detection
+  function configure(tuning: OnsetTuning) {
+    port.postMessage(tuning);
+  }
+
+  // stops the processor (a null message), then lets go of the port
+  function dispose() {
+    port.postMessage(null);
+    port.onmessage = null;
+    pending.length = 0;
+  }
+
+  return { drain, configure, dispose };
+}
@@ -0,0 +1,222 @@
+// AudioWorklet processor for audio-thread analysis (protocol and layout in analysis.ts).
+// Runs on the rendering thread: input is kept in per-channel history rings, and every `hop`
+// samples the newest `fftSize` samples are transformed, metered and checked for per-band
+// onsets; the multires / cqt front ends also transform a longer run into the log spectrum.
+// Each channel's newest `fftSize` samples are transformed as well, for the stereo features.
+// Loaded with Vite's `?worker&url`, which bundles the imports below into the module.
+
+import { ANALYSIS_PROCESSOR, ONSET_BANDS_HZ, frameLayout, logSpectrumRange, resolveAnalysisOptions, type AnalysisMessage, type AnalysisOptions, type OnsetTuning, type ProcessorMessage } from './analysis';
+import { hzToFftBin, hzToLogBin, logBinToHz, logGridRange, smooth3, type LogRange } from './bins';
+import { createConstantQ, createLevelMeter, createMultiResSpectrum, createSpectrum } from './spectrum';
+import { createBandOnsetDetector, type BandFlux } from './onsets';
+import type { FrameTime } from './clock';
+
+// AudioWorkletGlobalScope isn't part of the DOM lib
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, ctor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+class AnalysisProcessor extends AudioWorkletProcessor {
+  private readonly cfg: Required<AnalysisOptions>;
+  private readonly layout: ReturnType<typeof frameLayout>;
+  private readonly spectrum: ReturnType<typeof createSpectrum>;
+  private readonly multiRes: ReturnType<typeof createMultiResSpectrum> | null = null;
+  private readonly constantQ: ReturnType<typeof createConstantQ> | null = null;
+  private readonly channelSpectra: ReturnType<typeof createSpectrum>[];
+  private readonly meter: ReturnType<typeof createLevelMeter>;
+  private readonly db: Float32Array;
+  private readonly channelDb: Float32Array[];
+  private readonly channelFrame: Float32Array; // newest fftSize samples of one channel
+  private readonly logDb: Float32Array;
+  private readonly linear: Float32Array;   // newest mono samples, oldest first
+  private readonly fftFrame: Float32Array; // views into `linear`
+  private readonly longFrame: Float32Array; // newest lowFftSize / maxWindow samples
+  private readonly waveFrame: Float32Array;
+  // the onset flux follows the extractor's binsLogRaw: the spectrum resampled to its log
+  // grid, smoothed and mapped to 0..1 (rebuilt when a retune changes the grid)
+  private readonly fluxRange: LogRange = { fMin: 0, fMax: 0 };
+  private fluxSrcIdx = new Float32Array(0); // fractional index of each log bin into the source spectrum
+  private fluxDb = new Float32Array(0);     // resampled, still dB
+  private fluxUnit = new Float32Array(0);
+  private prevUnit = new Float32Array(0);
+  private fluxRise = new Float32Array(0);   // per-bin positive change
+  private fluxPrimed = false;
+  private readonly bandIdx = new Int32Array(ONSET_BANDS_HZ.length * 2); // [lo, hi] log bins per onset band
+  private readonly history: Float32Array[];
+  private readonly size: number;        // history ring length
+  private readonly pool: Float32Array[] = [];
+  private readonly detect: ReturnType<typeof createBandOnsetDetector>;
+  private readonly time: FrameTime = { t: 0, dt: 0 };
+  private readonly flux: BandFlux = { low: 0, mid: 0, high: 0 };
+  private write = 0;
+  private sinceHop = 0;
+  private stopped = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const cfg = this.cfg = resolveAnalysisOptions(options.processorOptions as AnalysisOptions | undefined);
+    this.layout = frameLayout(cfg);
+    const N = cfg.fftSize, bins = this.layout.bins;
+    this.spectrum = createSpectrum(N, cfg.smoothing);
+    const logBins = this.layout.logBins, range = logSpectrumRange(cfg, sampleRate);
+    if (cfg.spectrum === 'multires') this.multiRes = createMultiResSpectrum(cfg.lowFftSize, cfg.splitHz, cfg.smoothing, sampleRate, logBins, range);
+    if (cfg.spectrum === 'cqt') this.constantQ = createConstantQ(cfg.maxWindow, cfg.smoothing, sampleRate, logBins, range);
+    this.meter = createLevelMeter(cfg.meterSmoothing, cfg.hop, sampleRate);
+    this.db = new Float32Array(bins);
+    this.logDb = new Float32Array(logBins);
+    const long = cfg.spectrum === 'multires' ? cfg.lowFftSize : cfg.spectrum === 'cqt' ? cfg.maxWindow : N;
+    const M = this.size = Math.max(N, long, cfg.waveformSize, cfg.hop);
+    this.linear = new Float32Array(M);
+    this.fftFrame = this.linear.subarray(M - N);
+    this.longFrame = this.linear.subarray(M - long);
+    this.waveFrame = this.linear.subarray(M - cfg.waveformSize);
+    this.history = Array.from({ length: cfg.channels }, () => new Float32Array(this.size));
+    this.channelSpectra = this.history.map(() => createSpectrum(N, cfg.smoothing));
+    this.channelDb = this.history.map(() => new Float32Array(bins));
+    this.channelFrame = new Float32Array(N);
+    this.fluxGeometry();
+    this.detect = createBandOnsetDetector(cfg.onsets);
+    this.time.dt = (cfg.hop / sampleRate) * 1000;
+    // buffers come back from the receiver once consumed; null means the receiver is gone
+    this.port.onmessage = (e: MessageEvent<ProcessorMessage>) => {
+      if (e.data instanceof Float32Array) this.pool.push(e.data);
+      else if (e.data) this.retune(e.data);
+      else this.stopped = true;
+    };
+  }
+
+  // where each of the extractor's log bins reads the spectrum (its log spectrum with the
+  // multires / cqt front ends, else the FFT), and the onset bands' log-bin ranges
+  private fluxGeometry() {
+    const cfg = this.cfg, n = cfg.fluxBins;
+    if (this.fluxUnit.length !== n) {
+      this.fluxSrcIdx = new Float32Array(n);
+      this.fluxDb = new Float32Array(n);
+      this.fluxUnit = new Float32Array(n);
+      this.prevUnit = new Float32Array(n);
+      this.fluxRise = new Float32Array(n);
+    }
+    this.fluxPrimed = false;
+    const range = logGridRange(this.fluxRange, cfg.fluxMinHz, cfg.fluxMaxHz, sampleRate);
+    const logN = this.layout.logBins, logRange = logSpectrumRange(cfg, sampleRate);
+    for (let i = 0; i < n; i++) {
+      const hz = logBinToHz(i, n, range);
+      this.fluxSrcIdx[i] = logN > 1 ? hzToLogBin(hz, logN, logRange) : hzToFftBin(hz, this.layout.bins, sampleRate);
+    }
+    ONSET_BANDS_HZ.forEach(([lo, hi], k) => {
+      const a = Math.round(hzToLogBin(lo, n, range));
+      this.bandIdx[2 * k] = a;
+      this.bandIdx[2 * k + 1] = Math.max(a, Math.round(hzToLogBin(hi, n, range)));
+    });
+  }
+
+  // the detector reads the per-band options in place, so new ones apply from the next hop
+  private retune(t: OnsetTuning) {
+    const cfg = this.cfg;
+    const regrid = t.fluxBins !== cfg.fluxBins || t.fluxMinHz !== cfg.fluxMinHz || t.fluxMaxHz !== cfg.fluxMaxHz;
+    cfg.fluxBins = t.fluxBins; cfg.fluxMinHz = t.fluxMinHz; cfg.fluxMaxHz = t.fluxMaxHz;
+    cfg.spatialSmooth = t.spatialSmooth; cfg.spatialKernel = t.spatialKernel;
+    cfg.dbMin = t.dbMin; cfg.dbMax = t.dbMax; cfg.dbGamma = t.dbGamma;
+    if (regrid) this.fluxGeometry();
+    Object.assign(cfg.onsets.low, t.onsets.low);
+    Object.assign(cfg.onsets.mid, t.onsets.mid);
+    Object.assign(cfg.onsets.high, t.onsets.high);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) return false;
+    const input = inputs[0] ?? [];
+    const n = input[0]?.length ?? 128;
+    const H = this.size;
+    for (let c = 0; c < this.history.length; c++) {
+      const src = input[c] ?? input[0];
+      const ring = this.history[c];
+      for (let i = 0, w = this.write; i < n; i++, w = w + 1 === H ? 0 : w + 1) ring[w] = src ? src[i] : 0;
+    }
+    this.write = (this.write + n) % H;
+    this.sinceHop += n;
+    if (this.sinceHop >= this.cfg.hop) {
+      this.sinceHop -= this.cfg.hop;
+      this.analyse(currentFrame + n);
+    }
+    return true;
+  }
+
+  private analyse(endFrame: number) {
+    const { cfg, layout, db, linear } = this;
+    const H = this.size, C = this.history.length;
+
+    // unroll the rings into a mono, oldest-first window
+    for (let i = 0, r = this.write; i < H; i++, r = r + 1 === H ? 0 : r + 1) {
+      let s = 0;
+      for (let c = 0; c < C; c++) s += this.history[c][r];
+      linear[i] = s / C;
+    }
+    this.spectrum(this.fftFrame, db);
+    if (this.multiRes) this.multiRes(this.longFrame, db, this.logDb);
+    else if (this.constantQ) this.constantQ(this.longFrame, this.logDb);
+    const levelDb = this.meter(linear, H - cfg.hop, H);
+    const N = cfg.fftSize, chFrame = this.channelFrame;
+    for (let c = 0; c < C; c++) {
+      const ring = this.history[c];
+      for (let i = 0, r = (this.write - N + H) % H; i < N; i++, r = r + 1 === H ? 0 : r + 1) chFrame[i] = ring[r];
+      this.channelSpectra[c](chFrame, this.channelDb[c]);
+    }
+
+    // per-band spectral flux on the extractor's binsLogRaw recipe (log bins, smoothing,
+    // dB→unit), then the shared onset detector
+    const { fluxSrcIdx, fluxDb, fluxUnit, prevUnit, fluxRise } = this;
+    const src = this.layout.logBins > 1 ? this.logDb : db, srcN = src.length, F = fluxUnit.length;
+    for (let i = 0; i < F; i++) {
+      const idx = fluxSrcIdx[i];
+      const i0 = Math.max(0, Math.min(srcN - 2, Math.floor(idx)));
+      const frac = idx - i0;
+      fluxDb[i] = src[i0] * (1 - frac) + src[i0 + 1] * frac;
+    }
+    if (cfg.spatialSmooth) smooth3(fluxDb, fluxUnit, cfg.spatialKernel); else fluxUnit.set(fluxDb);
+    const span = cfg.dbMax - cfg.dbMin;
+    for (let i = 0; i < F; i++) {
+      const u0 = (fluxUnit[i] - cfg.dbMin) / span;
+      fluxUnit[i] = Math.pow(u0 < 0 ? 0 : u0 > 1 ? 1 : u0, cfg.dbGamma);
+    }
+    if (!this.fluxPrimed) { prevUnit.set(fluxUnit); this.fluxPrimed = true; }
+    for (let i = 0; i < F; i++) {
+      const d = fluxUnit[i] - prevUnit[i];
+      fluxRise[i] = d > 0 ? d : 0;
+      prevUnit[i] = fluxUnit[i];
+    }
+    for (let b = 0; b < 3; b++) {
+      const lo = this.bandIdx[2 * b], hi = this.bandIdx[2 * b + 1];
+      let sum = 0;
+      for (let k = lo; k <= hi; k++) sum += fluxRise[k];
+      const v = sum / (hi - lo + 1);
+      if (b === 0) this.flux.low = v; else if (b === 1) this.flux.mid = v; else this.flux.high = v;
+    }
+    this.time.t = (endFrame / sampleRate) * 1000;
+    const on = this.detect(this.time, this.flux);
+
+    const data = this.pool.pop() ?? new Float32Array(layout.length);
+    data[0] = levelDb;
+    data[1] = on.low.hit ? 1 : 0; data[2] = on.low.strength; data[3] = on.low.lastHitMs;
+    data[4] = on.mid.hit ? 1 : 0; data[5] = on.mid.strength; data[6] = on.mid.lastHitMs;
+    data[7] = on.high.hit ? 1 : 0; data[8] = on.high.strength; data[9] = on.high.lastHitMs;
+    data.set(db, layout.fft);
+    data.set(this.logDb, layout.log);
+    const W = cfg.waveformSize;
+    data.set(this.waveFrame, layout.waveform);
+    for (let c = 0; c < C; c++) {
+      const ring = this.history[c], off = layout.channels + c * W;
+      for (let i = 0; i < W; i++) data[off + i] = ring[(this.write - W + i + H) % H];
+      data.set(this.channelDb[c], layout.channelFft + c * layout.bins);
+    }
+
+    const msg: AnalysisMessage = { frame: endFrame, data };
+    this.port.postMessage(msg, [data.buffer]);
+  }
+}
+
+registerProcessor(ANALYSIS_PROCESSOR, AnalysisProcessor);
@@ -0,0 +1,134 @@
+// Idle "attract mode": a synthetic, slowly evolving Features stream.
+// While there is no signal the host crossfades the layers from the real (silent) frames to
+// these, and back once audio returns. Everything is a smooth function of f.t, so the stream
+// is deterministic under an injected clock: a travelling swell across the spectrum, an
+// unhurried beat grid with soft kick-like pulses, a note drifting round the circle of fifths,
+// a stereo image swaying from side to side and a gently breathing waveform. Like the extractor, the frame is overwritten in place.
+
+import { createFeatures, type FeatureExtractorOptions, type Features } from './features';
+import type { FrameTime } from './clock';
+
+export type AttractOptions = Partial<{
+  bpm: number;        // 84 beat grid tempo
+  swellMs: number;    // 9000 period of the spectral swell and the loudness breathing
+  driftMs: number;    // 6000 time each pitch class is held
+  level: number;      // 0.45 overall loudness 0..1
+}>;
+
+const DEFAULTS: Required<AttractOptions> = {
+  bpm: 84,
+  swellMs: 9000,
+  driftMs: 6000,
+  level: 0.45,
+};
+
+const TAU = Math.PI * 2;
+const FIFTHS = [0, 7, 2, 9, 4, 11, 6, 1, 8, 3, 10, 5];
+
+// extractorOptions: the live extractor's, so arrays (bins, waveform, bandMap) line up for blending
+export function createAttractFeatures(opts: AttractOptions = {}, extractorOptions: FeatureExtractorOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const f = createFeatures(extractorOptions);
+  const bandNames = Object.keys(f.bandMap);
+  const beatMs = 60000 / cfg.bpm;
+  f.tempo.bpm = cfg.bpm;
+  f.tempo.confidence = 0.8;
+
+  return function attract(time: FrameTime): Features {
+    const t = time.t;
+    f.t = t;
+    f.dt = time.dt;
+    f.hasSignal = false;
+
+    // beat grid
+    const beats = t / beatMs;
+    const beat = Math.floor(beats);
+    f.isBeat = beat !== f.beat;
+    f.beat = beat;
+    f.beatPhase = beats - beat;
+    f.beatInBar = beat % 4;
+    f.barPhase = (f.beatInBar + f.beatPhase) / 4;
+    f.isDownbeat = f.isBeat && f.beatInBar === 0;
+    const pulse = Math.exp(-f.beatPhase * 5) * (f.beatInBar === 0 ? 1 : 0.6);
+
+    // loudness breathes with the swell
+    const swell = 0.5 + 0.5 * Math.sin(TAU * t / cfg.swellMs);
+    const level = cfg.level * (0.7 + 0.3 * swell) * (0.85 + 0.15 * pulse);
+    f.rms01 = level; f.rmsDb = -60 + 50 * level;
+    f.energy = level; f.rmsPeak01 = f.energyPeak01 = 0.6 + 0.4 * swell;
+    f.onset = f.isBeat;
+    f.onsets.low.hit = f.isBeat; f.onsets.low.strength = f.isBeat ? 0.5 : 0;
+    if (f.isBeat) f.onsets.low.lastHitMs = t;
+
+    // a hump travelling up the log spectrum, tilted down towards the highs
+    const n = f.bins.length;
+    const pos = (t / cfg.swellMs) % 1;
+    for (let i = 0; i < n; i++) {
+      const x = i / n;
+      let d = Math.abs(x - pos); d = Math.min(d, 1 - d);
+      const hump = Math.exp(-d * d * 40);
+      const kick = x < 0.15 ? pulse * (1 - x / 0.15) : 0;
+      const v = Math.min(1, (0.15 + 0.6 * hump) * (1 - 0.5 * x) * level * 1.6 + 0.5 * kick);
+      f.binsLogRaw[i] = 0.2 + 0.5 * v;
+      f.binsLog[i] = v * 0.7;
+      f.bins[i] = v;
+    }
+    const third = Math.max(1, Math.floor(n / 3));
+    let low = 0, mid = 0, high = 0;
+    for (let i = 0; i < third; i++) { low += f.bins[i]; mid += f.bins[i + third]; high += f.bins[Math.min(n - 1, i + 2 * third)]; }
+    f.bands.low = f.bandsRaw.low = low / third;
+    f.bands.mid = f.bandsRaw.mid = mid / third;
+    f.bands.high = f.bandsRaw.high = high / third;
+    for (let b = 0; b < bandNames.length; b++) {
+      const name = bandNames[b];
+      const u = bandNames.length > 1 ? b / (bandNames.length - 1) : 0;
+      f.bandMap[name] = f.bins[Math.min(n - 1, Math.floor(u * (n - 1)))];
+      f.bandMapRaw[name] = f.binsLogRaw[Math.min(n - 1, Math.floor(u * (n - 1)))];
+    }
+    f.centroidHz = 300 + 1500 * pos;
+    f.rolloffHz = 2000 + 3000 * pos;
+
+    // harmony: one pitch class at a time, crossfading round the circle of fifths
+    const step = t / cfg.driftMs;
+    const k = Math.floor(step), frac = step - k;
+    const pcA = FIFTHS[k % 12], pcB = FIFTHS[(k + 1) % 12];
+    f.chroma.fill(0.05);
+    f.chroma[pcA] = 1 - 0.9 * frac;
+    f.chroma[pcB] = 0.1 + 0.9 * frac;
+    f.pitchClass = frac < 0.5 ? pcA : pcB;
+    f.pitchMidi = 60 + f.pitchClass;
+    f.pitchHz = 440 * Math.pow(2, (f.pitchMidi - 69) / 12);
+    f.pitchClarity = 0.8;
+
+    // texture: soft and tonal
+    f.timbre.flatness = 0.2; f.timbre.flux = 0.1 + 0.3 * pulse;
+    f.timbre.crest = 0.5; f.timbre.spread = 0.3 + 0.2 * swell; f.timbre.zcr = 0.2;
+
+    // stereo: the image sways slowly from side to side
+    const st = f.stereo;
+    const sway = 0.3 * Math.sin(TAU * t / (2 * cfg.swellMs));
+    st.balance = st.bandBalance.low = st.bandBalance.mid = st.bandBalance.high = sway;
+    st.width = 0.25 + 0.1 * swell;
+    st.correlation = 0.8;
+    for (let i = 0; i < n; i++) {
+      st.binsLeft[i] = f.binsLogRaw[i] * (1 - sway);
+      st.binsRight[i] = f.binsLogRaw[i] * (1 + sway);
+    }
+    st.bandsLeft.low = f.bandsRaw.low * (1 - sway); st.bandsRight.low = f.bandsRaw.low * (1 + sway);
+    st.bandsLeft.mid = f.bandsRaw.mid * (1 - sway); st.bandsRight.mid = f.bandsRaw.mid * (1 + sway);
+    st.bandsLeft.high = f.bandsRaw.high * (1 - sway); st.bandsRight.high = f.bandsRaw.high * (1 + sway);
+
+    // waveform: two slow partials drifting against each other
+    const w = f.waveform, len = w.length;
+    const ph = TAU * t / 4000;
+    for (let i = 0; i < len; i++) {
+      const x = TAU * i / len;
+      w[i] = level * (0.6 * Math.sin(3 * x + ph) + 0.25 * Math.sin(7 * x - 1.7 * ph));
+    }
+    f.waveformLocked = true;
+
+    f.section.changed = false;
+    f.section.elapsedMs = t - f.section.startMs;
+    return f;
+  };
+}
@@ -0,0 +1,233 @@
+// Tempo estimation and beat/bar tracking for the feature pipeline.
+// Input per frame: an onset-strength (novelty) value and the low-band level (BeatInput).
+// The novelty is resampled onto a fixed-rate envelope; tempo comes from its
+// autocorrelation, beat phase from a phase-locked loop nudged by a comb search,
+// and the downbeat from which beat slot of the bar carries the most low end (4/4 assumed).
+
+import type { FrameTime } from './clock';
+
+export type Tempo = {
+  bpm: number;        // estimated tempo
+  confidence: number; // 0..1 (periodicity strength × stability)
+};
+
+export type BeatState = {
+  tempo: Tempo;
+  beatPhase: number;  // 0..1, 0 = on the beat
+  beat: number;       // beat counter since the tracker started
+  beatInBar: number;  // 0..3, 0 = estimated downbeat
+  barPhase: number;   // 0..1 across the bar
+  isBeat: boolean;    // true on the frame a beat lands
+  isDownbeat: boolean;
+};
+
+// read by reference each frame (see clock.ts)
+export type BeatInput = {
+  novelty: number; // onset strength, e.g. mean positive spectral flux
+  low: number;     // low-band level, used to find the downbeat
+};
+
+export type BeatTrackerOptions = Partial<{
+  minBpm: number;        // 70
+  maxBpm: number;        // 180
+  priorBpm: number;      // 120 (log-gaussian tempo prior centre)
+  envelopeRateHz: number; // 100
+  windowSec: number;     // 8 (autocorrelation history)
+  reestimateMs: number;  // 500
+  phaseGain: number;     // 0.15 (PLL correction per onset)
+}>;
+
+const DEFAULTS: Required<BeatTrackerOptions> = {
+  minBpm: 70,
+  maxBpm: 180,
+  priorBpm: 120,
+  envelopeRateHz: 100,
+  windowSec: 8,
+  reestimateMs: 500,
+  phaseGain: 0.15,
+};
+
+const BEATS_PER_BAR = 4;
+
+function clamp01(x: number) { return x < 0 ? 0 : x > 1 ? 1 : x; }
+// wrap phase error to [-0.5, 0.5)
+function wrapHalf(x: number) { return x - Math.floor(x + 0.5); }
+
+export function createBeatTracker(opts: BeatTrackerOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const rate = cfg.envelopeRateHz;
+  const N = Math.round(cfg.windowSec * rate);
+  const minLag = Math.floor(60 * rate / cfg.maxBpm);
+  const maxLag = Math.ceil(60 * rate / cfg.minBpm);
+
+  // fixed-rate novelty envelope (ring buffer)
+  const env = new Float32Array(N);
+  const lin = new Float32Array(N);       // unrolled, mean-removed copy for analysis
+  const ac = new Float32Array(maxLag + 2);
+  // downbeat: per-slot low-end accumulation
+  const slotLow = new Float32Array(BEATS_PER_BAR);
+
+  // scalar state on an object (see clock.ts)
+  const s = {
+    head: 0, filled: 0,
+    gridCarryMs: 0,
+    // tempo
+    bpm: cfg.priorBpm,
+    candidateBpm: 0, candidateHits: 0,
+    periodicity: 0, stability: 0,
+    sinceEstimateMs: 0,
+    // phase / counters
+    phase: 0,
+    beat: 0,
+    prevNovelty: 0, noveltyAvg: 0,
+    // downbeat
+    downSlot: 0,
+    lowSinceBeat: 0,
+  };
+
+  const state: BeatState = {
+    tempo: { bpm: cfg.priorBpm, confidence: 0 },
+    beatPhase: 0, beat: 0, beatInBar: 0, barPhase: 0, isBeat: false, isDownbeat: false,
+  };
+
+  function pushEnvelope(value: number, dtMs: number) {
+    s.gridCarryMs += dtMs;
+    const stepMs = 1000 / rate;
+    // hold the latest value across grid steps (frames are ~60 Hz, grid is 100 Hz)
+    while (s.gridCarryMs >= stepMs) {
+      s.gridCarryMs -= stepMs;
+      env[s.head] = value;
+      s.head = (s.head + 1) % N;
+      if (s.filled < N) s.filled++;
+    }
+  }
+
+  function estimateTempo() {
+    if (s.filled < maxLag * 2) return;
+    // unroll oldest→newest, remove mean
+    let mean = 0;
+    for (let i = 0; i < s.filled; i++) {
+      const v = env[(s.head - s.filled + i + N) % N];
+      lin[i] = v; mean += v;
+    }
+    mean /= s.filled;
+    for (let i = 0; i < s.filled; i++) lin[i] -= mean;
+
+    let ac0 = 0;
+    for (let i = 0; i < s.filled; i++) ac0 += lin[i] * lin[i];
+    if (ac0 <= 1e-9) { s.periodicity = 0; return; }
+
+    for (let lag = minLag; lag <= maxLag + 1 && lag < s.filled; lag++) {
+      let acc = 0;
+      for (let i = lag; i < s.filled; i++) acc += lin[i] * lin[i - lag];
+      ac[lag] = acc / ac0;
+    }
+
+    // score with a tempo prior plus the double-period harmonic
+    let bestLag = -1, bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag && lag < s.filled; lag++) {
+      const b = 60 * rate / lag;
+      const oct = Math.log2(b / cfg.priorBpm);
+      const prior = Math.exp(-0.5 * oct * oct);
+      const lag2 = lag * 2;
+      const harm = lag2 <= maxLag + 1 && lag2 < s.filled ? 0.5 * ac[lag2] : 0;
+      const score = (ac[lag] + harm) * (0.5 + 0.5 * prior);
+      if (score > bestScore) { bestScore = score; bestLag = lag; }
+    }
+    if (bestLag < 0) return;
+
+    // parabolic interpolation around the peak for sub-sample lag
+    let lagF = bestLag;
+    if (bestLag > minLag && bestLag < maxLag && bestLag + 1 < s.filled) {
+      const a = ac[bestLag - 1], b = ac[bestLag], c = ac[bestLag + 1];
+      const denom = a - 2 * b + c;
+      if (Math.abs(denom) > 1e-9) lagF = bestLag + 0.5 * (a - c) / denom;
+    }
+    const est = 60 * rate / lagF;
+    s.periodicity = clamp01(ac[bestLag] * 2);
+
+    // accept small changes smoothly; large ones only once they persist
+    const rel = Math.abs(est - s.bpm) / s.bpm;
+    if (rel < 0.04) {
+      s.bpm = s.bpm * 0.8 + est * 0.2;
+      s.stability = Math.min(1, s.stability + 0.2);
+      s.candidateHits = 0;
+    } else {
+      if (s.candidateHits > 0 && Math.abs(est - s.candidateBpm) / s.candidateBpm < 0.04) s.candidateHits++;
+      else { s.candidateBpm = est; s.candidateHits = 1; }
+      s.stability = Math.max(0, s.stability - 0.25);
+      if (s.candidateHits >= 3) { s.bpm = s.candidateBpm; s.candidateHits = 0; }
+    }
+
+    // comb search for the beat offset; nudge the PLL toward it
+    const period = 60 * rate / s.bpm;
+    const steps = Math.max(1, Math.floor(period));
+    let bestOff = 0, bestSum = -Infinity;
+    for (let off = 0; off < steps; off++) {
+      let sum = 0;
+      for (let k = 0; ; k++) {
+        const idx = s.filled - 1 - Math.round(off + k * period);
+        if (idx < 0) break;
+        sum += lin[idx];
+      }
+      if (sum > bestSum) { bestSum = sum; bestOff = off; }
+    }
+    // bestOff grid steps ago was a beat → phase now should be bestOff / period
+    const target = bestOff / period;
+    s.phase += 0.3 * wrapHalf(target - s.phase);
+  }
+
+  return function track(time: FrameTime, input: BeatInput): BeatState {
+    const dtMs = time.dt, novelty = input.novelty, low = input.low;
+    pushEnvelope(novelty, dtMs);
+
+    s.sinceEstimateMs += dtMs;
+    if (s.sinceEstimateMs >= cfg.reestimateMs) {
+      s.sinceEstimateMs = 0;
+      estimateTempo();
+    }
+
+    // advance phase
+    const periodMs = 60000 / s.bpm;
+    s.phase += dtMs / periodMs;
+
+    // PLL: pull phase toward local novelty peaks
+    s.noveltyAvg = s.noveltyAvg * 0.95 + novelty * 0.05;
+    const isPeak = novelty > s.noveltyAvg * 1.5 && novelty > s.prevNovelty && novelty > 1e-4;
+    s.prevNovelty = novelty;
+    if (isPeak) {
+      const err = wrapHalf(s.phase);
+      s.phase -= cfg.phaseGain * err * clamp01(s.periodicity + 0.25);
+    }
+
+    // beat crossings
+    s.lowSinceBeat = Math.max(s.lowSinceBeat, low);
+    let isBeat = false;
+    if (s.phase >= 1) {
+      s.phase -= Math.floor(s.phase);
+      isBeat = true;
+      s.beat++;
+      const slot = s.beat % BEATS_PER_BAR;
+      slotLow[slot] = slotLow[slot] * 0.85 + s.lowSinceBeat * 0.15;
+      s.lowSinceBeat = 0;
+      // move the downbeat only when another slot is clearly stronger
+      let maxSlot = s.downSlot;
+      for (let i = 0; i < BEATS_PER_BAR; i++) if (slotLow[i] > slotLow[maxSlot]) maxSlot = i;
+      if (maxSlot !== s.downSlot && slotLow[maxSlot] > slotLow[s.downSlot] * 1.1) s.downSlot = maxSlot;
+    } else if (s.phase < 0) {
+      s.phase += 1;
+    }
+
+    const beatInBar = ((s.beat - s.downSlot) % BEATS_PER_BAR + BEATS_PER_BAR) % BEATS_PER_BAR;
+
+    state.tempo.bpm = s.bpm;
+    state.tempo.confidence = clamp01(s.periodicity) * (0.3 + 0.7 * s.stability);
+    state.beatPhase = s.phase;
+    state.beat = s.beat;
+    state.beatInBar = beatInBar;
+    state.barPhase = (beatInBar + s.phase) / BEATS_PER_BAR;
+    state.isBeat = isBeat;
+    state.isDownbeat = isBeat && beatInBar === 0;
+    return state;
+  };
+}
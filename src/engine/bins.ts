@@ -0,0 +1,55 @@
+// Shared Hz ↔ bin helpers for the log-spaced arrays in Features (bins, binsLog, binsLogRaw).
+// Bin i of an n-bin array sits at fMin · (fMax/fMin)^(i/(n-1)); Features.logRange carries
+// the fMin/fMax actually used (fMax is clamped to Nyquist), so layers never hard-code them.
+
+export type LogRange = { fMin: number; fMax: number };
+
+// Fractional log-bin index for a frequency (clamped to the array)
+export function hzToLogBin(hz: number, n: number, range: LogRange): number {
+  if (n < 2) return 0;
+  const lo = Math.log(range.fMin), hi = Math.log(range.fMax);
+  const t = (Math.log(Math.max(1e-6, hz)) - lo) / (hi - lo);
+  const idx = t * (n - 1);
+  return idx < 0 ? 0 : idx > n - 1 ? n - 1 : idx;
+}
+
+// Centre frequency of log-bin i
+export function logBinToHz(i: number, n: number, range: LogRange): number {
+  if (n < 2) return range.fMin;
+  return range.fMin * Math.pow(range.fMax / range.fMin, i / (n - 1));
+}
+
+// Mean of arr over the log bins covering [loHz, hiHz] (inclusive, at least one bin)
+export function logBandAverage(arr: ArrayLike<number>, loHz: number, hiHz: number, range: LogRange): number {
+  const n = arr.length;
+  if (!n || hiHz <= loHz) return 0;
+  const ilo = Math.round(hzToLogBin(loHz, n, range));
+  const ihi = Math.max(ilo, Math.round(hzToLogBin(hiHz, n, range)));
+  let s = 0;
+  for (let i = ilo; i <= ihi; i++) s += arr[i];
+  return s / (ihi - ilo + 1);
+}
+
+// Fractional index into a linear FFT array (0 Hz .. Nyquist) for a frequency
+export function hzToFftBin(hz: number, fftLen: number, sampleRate: number): number {
+  const nyquist = sampleRate * 0.5;
+  const clamped = Math.max(0, Math.min(nyquist, hz));
+  return (clamped / nyquist) * (fftLen - 1);
+}
+
+// The span of an fMin..fMax log grid at a sample rate: fMax clamped to Nyquist, fMin kept under it
+export function logGridRange(out: LogRange, fMin: number, fMax: number, sampleRate: number): LogRange {
+  out.fMax = Math.min(fMax, sampleRate * 0.5);
+  out.fMin = Math.max(1, Math.min(fMin, out.fMax - 1));
+  return out;
+}
+
+// Three-tap smoothing across neighbouring bins (wrapping at the ends), e.g. [0.25, 0.5, 0.25]
+export function smooth3(src: Float32Array, out: Float32Array, k: [number, number, number]) {
+  const n = src.length;
+  const a = k[0], b = k[1], c = k[2];
+  for (let i = 0; i < n; i++) {
+    const im1 = (i - 1 + n) % n, ip1 = (i + 1) % n;
+    out[i] = a * src[im1] + b * src[i] + c * src[ip1];
+  }
+}
@@ -0,0 +1,175 @@
+// Feature extractor calibration: the settings schema, named profiles and auto-calibration.
+// The extractor's live options (LIVE_FEATURE_KEYS in features.ts) are described with the same
+// Control schema the layers use, so one control renderer serves both. A profile is a named set
+// of overrides on the extractor defaults; each source kind (mic, loopback device, file) has a
+// profile assigned, which is applied whenever that kind of source starts.
+// Auto-calibration listens to the input for a few seconds and derives the dB ranges and the
+// silence gate from the measured noise floor and peaks; play typical material, quiet passages
+// included, while it runs.
+
+import type { Control } from './layers';
+import { LIVE_FEATURE_KEYS, resolveFeatureOptions, type LiveFeatureKey, type LiveFeatureOptions } from './features';
+
+export type FeatureSettings = Required<LiveFeatureOptions>;
+
+export type SourceKind = 'mic' | 'loopback' | 'file';
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  builtIn: boolean;              // built-ins can be reset but not deleted
+  settings: LiveFeatureOptions;  // overrides on the extractor defaults
+};
+
+const D = resolveFeatureOptions();
+
+function slider(key: LiveFeatureKey, label: string, min: number, max: number, step: number): Control {
+  return { kind: 'slider', key, label, min, max, step, default: D[key] as number };
+}
+
+export const FEATURE_CONTROLS: Control[] = [
+  slider('dbMin', 'Spectrum floor (dB)', -140, -40, 1),
+  slider('dbMax', 'Spectrum ceiling (dB)', -80, 0, 1),
+  slider('dbGamma', 'Spectrum gamma', 0.5, 3, 0.05),
+  { kind: 'toggle', key: 'spatialSmooth', label: 'Smooth across bins', default: D.spatialSmooth },
+  slider('rmsDbMin', 'Loudness floor (dB)', -100, -20, 1),
+  slider('rmsDbMax', 'Loudness ceiling (dB)', -60, 0, 1),
+  slider('silenceDb', 'Silence below (dB)', -100, -20, 1),
+  slider('signalDb', 'Signal from (dB)', -100, -20, 1),
+  slider('silenceHoldMs', 'Silence hold (ms)', 0, 2000, 10),
+  slider('gateMs', 'Gate fade (ms)', 10, 1000, 10),
+  slider('attackMs', 'Energy attack (ms)', 1, 300, 1),
+  slider('decayMs', 'Energy decay (ms)', 20, 1000, 5),
+  slider('onsetK', 'Onset threshold (σ)', 0.5, 4, 0.05),
+  slider('baselineTauMs', 'Baseline (ms)', 100, 10000, 50),
+  slider('deadband', 'Deadband', 0, 0.2, 0.005),
+  slider('knee', 'Knee', 0.01, 1, 0.01),
+  slider('peakDecayMs', 'Peak decay (ms)', 250, 15000, 50),
+];
+
+export function defaultFeatureSettings(): FeatureSettings {
+  const out = {} as Record<LiveFeatureKey, number | boolean>;
+  for (const key of LIVE_FEATURE_KEYS) out[key] = D[key];
+  return out as FeatureSettings;
+}
+
+// A profile's full settings: its overrides on top of the defaults
+export function profileSettings(profile: CalibrationProfile): FeatureSettings {
+  return { ...defaultFeatureSettings(), ...profile.settings };
+}
+
+// The extractor defaults were tuned on mastered files. A microphone sits lower and hears the
+// room, so its ranges and gate move down; a loopback device is a full-scale digital copy of
+// the output that is truly silent between tracks, so only the gate is tightened.
+export const BUILT_IN_PROFILES: ReadonlyArray<CalibrationProfile> = [
+  { id: 'file', name: 'File', builtIn: true, settings: {} },
+  { id: 'mic', name: 'Microphone', builtIn: true, settings: { dbMin: -110, dbMax: -40, rmsDbMin: -70, rmsDbMax: -20, silenceDb: -66, signalDb: -58 } },
+  { id: 'loopback', name: 'Loopback', builtIn: true, settings: { silenceDb: -70, signalDb: -64, silenceHoldMs: 250 } },
+];
+
+export const DEFAULT_ASSIGNMENTS: Readonly<Record<SourceKind, string>> = { mic: 'mic', loopback: 'loopback', file: 'file' };
+
+// Virtual cables and "what you hear" inputs carry the output signal, not a microphone
+const LOOPBACK_LABEL = /loopback|stereo mix|what u hear|wave out|cable output|vb-audio|blackhole|soundflower|monitor of/i;
+
+export function sourceKindOf(isFile: boolean, deviceLabel = ''): SourceKind {
+  if (isFile) return 'file';
+  return LOOPBACK_LABEL.test(deviceLabel) ? 'loopback' : 'mic';
+}
+
+export type CalibrationResult = {
+  noiseDb: number;          // quiet-end RMS
+  peakDb: number;           // loud-end RMS
+  spectrumFloorDb: number;  // typical bin level at the quiet end
+  spectrumPeakDb: number;   // loudest bins at the loud end
+  settings: LiveFeatureOptions;
+};
+
+export type CalibratorOptions = Partial<{
+  durationMs: number;       // 8000 listening time
+  floorPercentile: number;  // 0.1 frames counted as the noise floor
+  peakPercentile: number;   // 0.98 frames counted as the peak
+  minRangeDb: number;       // 12 narrower than this between floor and peak fails (nothing playing)
+}>;
+
+const CALIBRATOR_DEFAULTS: Required<CalibratorOptions> = {
+  durationMs: 8000,
+  floorPercentile: 0.1,
+  peakPercentile: 0.98,
+  minRangeDb: 12,
+};
+
+// What the calibrator reads from an analysis frame (AnalysisFrame satisfies it)
+export type CalibrationInput = { t: number; fft: Float32Array; rmsDb: number };
+
+function percentile(values: number[], p: number) {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
+
+// Measured values are rounded and kept within their sliders' ranges, so a very quiet or very
+// hot input can't write a setting the panel can't show
+function fitSlider(key: LiveFeatureKey, value: number) {
+  const c = FEATURE_CONTROLS.find(c => c.key === key);
+  const v = Math.round(value);
+  return c?.kind === 'slider' ? Math.min(c.max, Math.max(c.min, v)) : v;
+}
+
+// Collects frames (push) until durationMs of audio time has passed, then result() has the
+// measurement, or null when the input was silent or flat. Runs only while calibrating, so
+// unlike the extractor it keeps plain growing arrays.
+export function createCalibrator(opts: CalibratorOptions = {}) {
+  const cfg = { ...CALIBRATOR_DEFAULTS, ...opts };
+  const rms: number[] = [];
+  const binMedian: number[] = [];
+  const binMax: number[] = [];
+  const s = { startT: NaN, elapsedMs: 0 };
+  let scratch = new Float32Array(0);
+
+  function push(frame: CalibrationInput) {
+    if (s.elapsedMs >= cfg.durationMs) return;
+    if (isNaN(s.startT)) s.startT = frame.t;
+    s.elapsedMs = frame.t - s.startT;
+    if (isFinite(frame.rmsDb)) rms.push(frame.rmsDb);
+    const n = frame.fft.length;
+    if (!n) return;
+    if (scratch.length !== n) scratch = new Float32Array(n);
+    scratch.set(frame.fft);
+    scratch.sort();
+    const median = scratch[n >> 1], max = scratch[n - 1];
+    if (isFinite(median)) binMedian.push(median);
+    if (isFinite(max)) binMax.push(max);
+  }
+
+  function result(): CalibrationResult | null {
+    if (!rms.length || !binMedian.length || !binMax.length) return null;
+    const noiseDb = percentile(rms, cfg.floorPercentile);
+    const peakDb = percentile(rms, cfg.peakPercentile);
+    if (peakDb - noiseDb < cfg.minRangeDb) return null;
+    const spectrumFloorDb = percentile(binMedian, cfg.floorPercentile);
+    const spectrumPeakDb = percentile(binMax, cfg.peakPercentile);
+    // the gate opens a little above the floor and never within 12 dB of the peak, which keeps
+    // signalDb (6 dB above it) 6 dB below the peak
+    const silenceDb = Math.min(noiseDb + 6, peakDb - 12);
+    return {
+      noiseDb, peakDb, spectrumFloorDb, spectrumPeakDb,
+      settings: {
+        dbMin: fitSlider('dbMin', spectrumFloorDb),
+        dbMax: fitSlider('dbMax', Math.max(spectrumPeakDb, spectrumFloorDb + 30)),
+        rmsDbMin: fitSlider('rmsDbMin', noiseDb + 3),
+        rmsDbMax: fitSlider('rmsDbMax', peakDb),
+        silenceDb: fitSlider('silenceDb', silenceDb),
+        signalDb: fitSlider('signalDb', silenceDb + 6),
+      },
+    };
+  }
+
+  return {
+    push,
+    result,
+    get progress() { return Math.min(1, s.elapsedMs / cfg.durationMs); },
+    get done() { return s.elapsedMs >= cfg.durationMs; },
+  };
+}
+
+export type Calibrator = ReturnType<typeof createCalibrator>;
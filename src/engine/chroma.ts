@@ -0,0 +1,158 @@
+// Pitch-class content (chroma) and a running key estimate.
+// Chroma folds FFT magnitudes onto 12 pitch classes (C..B) with a cosine weight that
+// favours bins close to an equal-tempered pitch. The key is the Krumhansl–Kessler
+// profile (24 major/minor rotations) best correlated with a slow average of the chroma.
+
+import type { FrameTime } from './clock';
+
+export type KeyMode = 'major' | 'minor';
+
+export type KeyEstimate = {
+  tonic: number;      // pitch class 0..11 (0 = C), -1 before any estimate
+  mode: KeyMode;
+  confidence: number; // 0..1
+  name: string;       // e.g. "A minor"
+};
+
+export type ChromaState = {
+  chroma: Float32Array; // 12 bins, 0..1 (max-normalized, smoothed)
+  pitchClass: number;   // dominant pitch class 0..11, -1 when silent
+  key: KeyEstimate;
+};
+
+export type ChromaOptions = Partial<{
+  fMin: number;        // 80 Hz (below this a small FFT can't resolve semitones)
+  fMax: number;        // 5000 Hz
+  smoothMs: number;    // 150 chroma smoothing
+  keyWindowMs: number; // 8000 key averaging
+  dbFloor: number;     // -90 bins below this are ignored
+}>;
+
+const DEFAULTS: Required<ChromaOptions> = {
+  fMin: 80,
+  fMax: 5000,
+  smoothMs: 150,
+  keyWindowMs: 8000,
+  dbFloor: -90,
+};
+
+export const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// prebuilt so the per-frame key update doesn't build strings
+const KEY_NAMES: Record<KeyMode, string[]> = {
+  major: PITCH_NAMES.map(p => `${p} major`),
+  minor: PITCH_NAMES.map(p => `${p} minor`),
+};
+
+// Krumhansl–Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function correlateRotated(x: Float32Array, profile: number[], tonic: number) {
+  let mx = 0, mp = 0;
+  for (let i = 0; i < 12; i++) { mx += x[i]; mp += profile[i]; }
+  mx /= 12; mp /= 12;
+  let num = 0, dx = 0, dp = 0;
+  for (let i = 0; i < 12; i++) {
+    const a = x[(i + tonic) % 12] - mx;
+    const b = profile[i] - mp;
+    num += a * b; dx += a * a; dp += b * b;
+  }
+  const den = Math.sqrt(dx * dp);
+  return den > 1e-12 ? num / den : 0;
+}
+
+// Hue 0..1 for a key, walking the circle of fifths so related keys get neighbouring colours.
+// A minor key takes its relative major's position.
+export function keyHue(key: KeyEstimate): number {
+  if (key.tonic < 0) return 0;
+  const majorTonic = key.mode === 'minor' ? (key.tonic + 3) % 12 : key.tonic;
+  const fifths = (majorTonic * 7) % 12;
+  return fifths / 12;
+}
+
+export function createChromaAnalyzer(opts: ChromaOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+
+  // per-FFT-bin pitch class + weight, rebuilt if FFT size / sample rate change
+  let mapLen = 0, mapRate = 0;
+  let binClass = new Int8Array(0);
+  let binWeight = new Float32Array(0);
+
+  const raw = new Float32Array(12);
+  const chroma = new Float32Array(12);
+  const longTerm = new Float32Array(12);
+  const state: ChromaState = {
+    chroma,
+    pitchClass: -1,
+    key: { tonic: -1, mode: 'major', confidence: 0, name: '' },
+  };
+
+  function buildMap(n: number, sampleRate: number) {
+    mapLen = n; mapRate = sampleRate;
+    binClass = new Int8Array(n).fill(-1);
+    binWeight = new Float32Array(n);
+    const ny = sampleRate * 0.5;
+    for (let i = 1; i < n; i++) {
+      const hz = (i / (n - 1)) * ny;
+      if (hz < cfg.fMin || hz > cfg.fMax) continue;
+      const midi = 12 * Math.log2(hz / 440) + 69;
+      const nearest = Math.round(midi);
+      const dev = midi - nearest; // -0.5..0.5 semitones
+      binClass[i] = ((nearest % 12) + 12) % 12;
+      const c = Math.cos(Math.PI * dev);
+      binWeight[i] = c * c;
+    }
+  }
+
+  return function analyze(fftDb: Float32Array, sampleRate: number, time: FrameTime): ChromaState {
+    const dt = time.dt;
+    const n = fftDb.length;
+    if (n !== mapLen || sampleRate !== mapRate) buildMap(n, sampleRate);
+
+    raw.fill(0);
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      const pc = binClass[i];
+      const db = fftDb[i];
+      if (pc < 0 || !(db > cfg.dbFloor)) continue;
+      const mag = Math.pow(10, db / 20) * binWeight[i];
+      raw[pc] += mag;
+      total += mag;
+    }
+
+    // normalize to max = 1, then smooth
+    let max = 0;
+    for (let i = 0; i < 12; i++) if (raw[i] > max) max = raw[i];
+    const a = Math.exp(-dt / Math.max(1, cfg.smoothMs));
+    const aKey = Math.exp(-dt / Math.max(1, cfg.keyWindowMs));
+    const active = total > 0 && max > 0;
+    let best = -1, bestVal = 0;
+    for (let i = 0; i < 12; i++) {
+      const v = active ? raw[i] / max : 0;
+      chroma[i] = chroma[i] * a + v * (1 - a);
+      // only accumulate key evidence while something is sounding
+      if (active) longTerm[i] = longTerm[i] * aKey + chroma[i] * (1 - aKey);
+      if (chroma[i] > bestVal) { bestVal = chroma[i]; best = i; }
+    }
+    state.pitchClass = bestVal > 0.05 ? best : -1;
+
+    // key: best of 24 rotated profiles; confidence from the margin over the runner-up
+    let sum = 0;
+    for (let i = 0; i < 12; i++) sum += longTerm[i];
+    if (sum > 1e-6) {
+      let r1 = -Infinity, r2 = -Infinity, tonic = 0, mode: KeyMode = 'major';
+      for (let k = 0; k < 24; k++) {
+        const m: KeyMode = k < 12 ? 'major' : 'minor';
+        const r = correlateRotated(longTerm, m === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, k % 12);
+        if (r > r1) { r2 = r1; r1 = r; tonic = k % 12; mode = m; }
+        else if (r > r2) { r2 = r; }
+      }
+      const margin = Math.max(0, r1 - r2);
+      state.key.tonic = tonic;
+      state.key.mode = mode;
+      state.key.confidence = Math.max(0, Math.min(1, r1)) * Math.min(1, margin * 10);
+      state.key.name = KEY_NAMES[mode][tonic];
+    }
+    return state;
+  };
+}
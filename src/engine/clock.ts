@@ -0,0 +1,33 @@
+// Time sources and frame timing shared by the analysis stages.
+// Nothing in the feature pipeline or the layers reads wall time directly: the extractor takes
+// its timestamps from an injected Clock (`now` option) and layers take theirs from Features.t /
+// Features.dt. Feeding the same FFT/RMS frames with the same timestamps therefore reproduces
+// the same Features bit for bit, which is what replay and offline rendering rely on.
+
+// Milliseconds on some monotonic timeline
+export type Clock = () => number;
+
+export const wallClock: Clock = () => performance.now();
+
+// A clock that only moves when told to: set() to a frame's timestamp before extracting it,
+// or advance() by a fixed step when rendering offline
+export function createManualClock(startMs = 0) {
+  const state = { t: startMs };
+  return {
+    now: (() => state.t) as Clock,
+    set(t: number) { state.t = t; },
+    advance(dt: number) { state.t += dt; },
+  };
+}
+
+// Doubles and allocation: the analysis stages allocate nothing per frame, but the JIT boxes
+// (allocates) a double whenever it is assigned to a closure variable, or passed to or returned
+// from a call it doesn't inline. So stages keep their scalar state as fields of an `s` object,
+// which are updated in place, and take times by reference through FrameTime.
+//
+// Features satisfies FrameTime, so stages receive the frame being built and read f.t / f.dt
+// from it (see the ownership note in features.ts).
+export type FrameTime = {
+  t: number;  // ms
+  dt: number; // ms since the previous frame
+};
@@ -0,0 +1,174 @@
+// Typed events derived from the Features stream, for layers and automation.
+// Features carries one-frame pulses (onset, isBeat, section.changed, ...) that every consumer
+// would otherwise poll and edge-detect on its own. The host calls dispatch() once per rendered
+// frame, after the frame is final and before any layer updates, and each pulse becomes one
+// event, delivered in a fixed order:
+//
+//   source → silenceEnd → section → bar → beat → onset (broadband, low, mid, high) → silenceStart
+//
+// so a handler always sees a change of context before the events that happen inside it.
+//
+// Ownership: subscriptions made inside collect(owner, fn) belong to owner (the host wraps each
+// layer's init() in it) and are dropped by release(owner) (after dispose()); muted owners get
+// nothing. Payloads are reused like Features: read them in the handler, copy what must outlive it.
+
+import type { Features } from './features';
+import type { Section } from './sections';
+
+export type OnsetBand = 'broadband' | 'low' | 'mid' | 'high';
+
+export type FeatureEventMap = {
+  source: { version: number };                   // new source or track; adaptive state restarts
+  silenceEnd: { silentMs: number };              // f.hasSignal is back after silentMs of silence
+  section: Section;                              // f.section on the frame it changed
+  bar: { bar: number; bpm: number };             // a downbeat landed
+  beat: { beat: number; beatInBar: number; bpm: number; confidence: number; downbeat: boolean };
+  onset: { band: OnsetBand; strength: number };  // one per band that hit (strength 0 for broadband)
+  silenceStart: { level: number };               // f.hasSignal dropped (level: rmsDb at that frame)
+};
+
+export type FeatureEventType = keyof FeatureEventMap;
+export type FeatureEventHandler<K extends FeatureEventType> = (event: FeatureEventMap[K], f: Features) => void;
+
+type Subscription<K extends FeatureEventType> = { handler: FeatureEventHandler<K>; owner: object | null };
+type Subscriptions = { [K in FeatureEventType]: Subscription<K>[] };
+
+const ONSET_BANDS = ['low', 'mid', 'high'] as const;
+
+export function createFeatureEvents() {
+  // per type, replaced (not mutated) on unsubscribe so a dispatch in progress is unaffected
+  const subs: Subscriptions = {
+    source: [], silenceEnd: [], section: [], bar: [], beat: [], onset: [], silenceStart: [],
+  };
+  const muted = new Set<object>();
+  let collecting: object | null = null;
+
+  // reused payloads
+  const ev = {
+    source: { version: 0 },
+    silenceEnd: { silentMs: 0 },
+    bar: { bar: 0, bpm: 0 },
+    beat: { beat: 0, beatInBar: 0, bpm: 0, confidence: 0, downbeat: false },
+    onset: { band: 'broadband' as OnsetBand, strength: 0 },
+    silenceStart: { level: -Infinity },
+  };
+
+  const s = {
+    sourcePending: false,
+    signal: false, // f.hasSignal on the previous dispatch (nothing is playing at first)
+    silentMs: 0,   // f.silenceMs on the last silent frame
+    bar: 0,
+  };
+
+  function emit<K extends FeatureEventType>(type: K, event: FeatureEventMap[K], f: Features) {
+    const list = subs[type];
+    for (let i = 0; i < list.length; i++) {
+      const sub = list[i];
+      if (sub.owner && muted.has(sub.owner)) continue;
+      sub.handler(event, f);
+    }
+  }
+
+  // subs seen through a single type K, which TS can both read and write generically
+  function subsOf<K extends FeatureEventType>(): { [P in K]: Subscription<P>[] } {
+    return subs;
+  }
+
+  // drop a type's subscriptions that fail keep
+  function prune<K extends FeatureEventType>(type: K, keep: (sub: Subscription<K>) => boolean) {
+    const table = subsOf<K>();
+    if (!table[type].every(keep)) table[type] = table[type].filter(keep);
+  }
+
+  return {
+    // Subscribe to one event type; returns the unsubscribe function
+    on<K extends FeatureEventType>(type: K, handler: FeatureEventHandler<K>, owner: object | null = collecting) {
+      const sub: Subscription<K> = { handler, owner };
+      const table = subsOf<K>();
+      table[type] = [...table[type], sub];
+      return () => prune(type, x => x !== sub);
+    },
+
+    // Attribute every subscription made while fn runs to owner
+    collect<T>(owner: object, fn: () => T): T {
+      const prev = collecting;
+      collecting = owner;
+      try {
+        return fn();
+      } finally {
+        collecting = prev;
+      }
+    },
+
+    release(owner: object) {
+      for (const type of Object.keys(subs) as FeatureEventType[]) prune(type, x => x.owner !== owner);
+      muted.delete(owner);
+    },
+
+    mute(owner: object, on: boolean) {
+      if (on) muted.add(owner); else muted.delete(owner);
+    },
+
+    // The next dispatch opens with a source event
+    sourceChanged(version: number) {
+      ev.source.version = version;
+      s.sourcePending = true;
+      s.bar = 0;
+    },
+
+    dispatch(f: Features) {
+      if (s.sourcePending) {
+        s.sourcePending = false;
+        emit('source', ev.source, f);
+      }
+
+      // signal presence (hold and hysteresis are the extractor's, see features.ts)
+      const wasSignal = s.signal;
+      s.signal = f.hasSignal;
+      if (f.hasSignal && !wasSignal) {
+        ev.silenceEnd.silentMs = s.silentMs;
+        emit('silenceEnd', ev.silenceEnd, f);
+      }
+      if (!f.hasSignal) s.silentMs = f.silenceMs;
+
+      if (f.section.changed) emit('section', f.section, f);
+
+      if (f.isDownbeat) {
+        ev.bar.bar = ++s.bar;
+        ev.bar.bpm = f.tempo.bpm;
+        emit('bar', ev.bar, f);
+      }
+      if (f.isBeat) {
+        const b = ev.beat;
+        b.beat = f.beat; b.beatInBar = f.beatInBar;
+        b.bpm = f.tempo.bpm; b.confidence = f.tempo.confidence; b.downbeat = f.isDownbeat;
+        emit('beat', b, f);
+      }
+
+      if (f.onset) {
+        ev.onset.band = 'broadband';
+        ev.onset.strength = 0;
+        emit('onset', ev.onset, f);
+      }
+      for (const band of ONSET_BANDS) {
+        const o = f.onsets[band];
+        if (!o.hit) continue;
+        ev.onset.band = band;
+        ev.onset.strength = o.strength;
+        emit('onset', ev.onset, f);
+      }
+
+      if (!f.hasSignal && wasSignal) {
+        ev.silenceStart.level = f.rmsDb;
+        emit('silenceStart', ev.silenceStart, f);
+      }
+    },
+
+    clear() {
+      for (const type of Object.keys(subs) as FeatureEventType[]) prune(type, () => false);
+      muted.clear();
+    },
+  };
+}
+
+export type FeatureEvents = ReturnType<typeof createFeatureEvents>;
@@ -1,35 +1,139 @@
 // Centralized audio features for all layers.
-// Input: raw FFT (dB from Tone.Analyser.getValue()), RMS (dB from Tone.Meter), sampleRate.
+// Input: raw FFT (dB, from the analysis worklet or Tone.Analyser), RMS (dB), sampleRate,
+//        optional time-domain waveform and per-channel waveforms, and optionally a log-frequency
+//        spectrum (multi-resolution / constant-Q, see analysis.ts) that binsLog is built from
+//        instead of the FFT, for real resolution in the bass; per-channel FFTs add the stereo
+//        features (per-channel bins and bands, balance, width, correlation).
 // Output: normalized Features with log-resampled, AC-coupled bins and musical summaries.
+//
+// Silence: the adaptive (AGC) outputs divide by decaying running peaks, which would slowly
+// scale background hiss up to full range. Signal presence is tracked on RMS with a hold and
+// hysteresis (hasSignal / silenceMs); while it is absent the peaks stop decaying and the
+// AGC outputs (bins, AGC'd bandMap entries, rmsPeak01, energyPeak01) fade to zero.
+//
+// Ownership: an extractor allocates its Features frame once and overwrites it in place on
+// every call — the same object, arrays and nested objects come back each frame, so steady-state
+// extraction allocates nothing (see bench/features.bench.ts). Layers may read anything during
+// update() but must not write to it, and must not hold references across frames: copy what
+// needs to outlive the frame (`f.bins.slice()`, `{ ...f.key }`) or take `cloneFeatures(f)`.
+
+import { createBeatTracker, type BeatTrackerOptions, type Tempo } from './beat';
+import { createBandOnsetDetector, type BandOnset, type BandOnsets } from './onsets';
+import type { BeatInput } from './beat';
+import { createChromaAnalyzer, type ChromaOptions, type KeyEstimate } from './chroma';
+import { createTimbreAnalyzer, type Timbre, type TimbreOptions } from './timbre';
+import { createScopeTrigger, type ScopeOptions } from './scope';
+import { createPitchTracker, type PitchOptions } from './pitch';
+import { createStereoMeter, type StereoImage, type StereoOptions } from './stereo';
+import { copySectionInto, createSectionTracker, emptySection, type Section, type SectionTrackerOptions } from './sections';
+import { hzToFftBin, hzToLogBin, logBinToHz, logGridRange, smooth3, type LogRange } from './bins';
+import type { LogSpectrum } from './spectrum';
+import type { OnsetTuning } from './analysis';
+import { wallClock, type Clock } from './clock';
 
 export type Bands = { low: number; mid: number; high: number };
 
+// A user-declared frequency band, exposed as Features.bandMap[name].
+// Bands are measured on the linear FFT, so they may extend past fMax (up to Nyquist).
+export type BandDef = {
+  name: string;
+  loHz: number;
+  hiHz: number;
+  agc?: boolean;      // normalize against a decaying running max (default true)
+  attackMs?: number;  // defaults to cfg.attackMs
+  decayMs?: number;   // defaults to cfg.decayMs
+};
+
+export const DEFAULT_BANDS: BandDef[] = [
+  { name: 'sub', loHz: 20, hiHz: 60 },
+  { name: 'kick', loHz: 60, hiHz: 130, decayMs: 90 },
+  { name: 'bass', loHz: 130, hiHz: 300 },
+  { name: 'vocal', loHz: 300, hiHz: 3000 },
+  { name: 'presence', loHz: 3000, hiHz: 6000 },
+  { name: 'air', loHz: 10000, hiHz: 16000 },
+];
+
+// Stereo image plus the per-channel spectra it was measured on. A mono source (or one without
+// per-channel spectra) reads as centred: both channels carry the mono bins and bands.
+export type Stereo = StereoImage & {
+  binsLeft: Float32Array;   // like binsLogRaw (log-spaced, dB→unit), per channel
+  binsRight: Float32Array;
+  bandsLeft: Bands;         // low/mid/high means of binsLeft / binsRight
+  bandsRight: Bands;
+};
+
 export type Features = {
   // timing
   t: number;          // ms
   dt: number;         // ms since last call
 
+  // signal presence (RMS with hold + hysteresis)
+  hasSignal: boolean; // false once the input has stayed below silenceDb for silenceHoldMs
+  silenceMs: number;  // how long the input has been below silenceDb (0 while it is above)
+
   // meters
   rmsDb: number;      // input RMS in dB
   rms01: number;      // 0..1 normalized loudness (for widths, etc.)
   rmsPeak01: number;  // normalized to a decaying running max (0..1)
   energy: number;     // smoothed loudness 0..1 (attack/decay)
   energyPeak01: number; // energy relative to decaying running max (0..1)
-  onset: boolean;     // kick-ish moment
+  onset: boolean;     // kick-ish moment (broadband energy)
+  onsets: BandOnsets; // per-band spectral-flux onsets: low ≈ kick, mid ≈ snare, high ≈ hi-hat
+
+  // musical time (see beat.ts; 4/4 assumed for bars)
+  tempo: Tempo;       // bpm + confidence 0..1
+  beatPhase: number;  // 0..1, 0 = on the beat
+  beat: number;       // beat counter
+  beatInBar: number;  // 0..3, 0 = estimated downbeat
+  barPhase: number;   // 0..1 across the bar
+  isBeat: boolean;    // true on the frame a beat lands
+  isDownbeat: boolean;
+
+  // song structure (see sections.ts)
+  section: Section;   // current section: id, label guess, elapsed time, changed pulse
 
   // spectral summaries
   bands: Bands;       // 0..1 (post AC + compression)
   bandsRaw: Bands;    // 0..1 (pre AC, post dB→unit + optional spatial smooth)
+  bandMap: Record<string, number>;    // cfg.bands by name, 0..1 after per-band AGC + smoothing
+  bandMapRaw: Record<string, number>; // same bands, dB→unit only
   centroidHz: number; // rough brightness proxy
   rolloffHz: number;  // 85% spectral rolloff
 
+  // harmony (see chroma.ts)
+  chroma: Float32Array; // 12 pitch classes C..B, 0..1
+  pitchClass: number;   // dominant pitch class 0..11, -1 when silent
+  key: KeyEstimate;     // running key estimate (tonic, major/minor, confidence)
+
+  // melody (see pitch.ts): monophonic fundamental of the time-domain input
+  pitchHz: number;      // 0 when unvoiced
+  pitchMidi: number;    // nearest MIDI note number (69 = A4), -1 when unvoiced
+  pitchCents: number;   // offset from pitchMidi, -50..50
+  pitchClarity: number; // 0..1 how clearly pitched the frame is
+
+  // texture (see timbre.ts)
+  timbre: Timbre;       // each descriptor 0..1 against an adaptive range
+  timbreRaw: Timbre;    // unnormalized values (flatness 0..1, spread Hz, zcr per sample, ...)
+
+  // stereo (see stereo.ts): balance -1 left..1 right, width, phase correlation, per-channel bins
+  stereo: Stereo;
+
+  // time domain (see scope.ts), aligned on a rising zero crossing
+  waveform: Float32Array;           // mono, -1..1, length cfg.scope.length (default 1024)
+  waveformChannels: Float32Array[]; // [left, right] on the same trigger; empty when not available
+  waveformLocked: boolean;          // false when no trigger was found this frame
+
   // ready-to-use, log-spaced, AC-coupled, soft-kneed magnitudes
   bins: Float32Array;     // primary, normalized 0..1 (per-bin adaptive peak AGC)
   binsLog: Float32Array; // length = cfg.logBins (default 128), values 0..1
   binsLogRaw: Float32Array; // same length, mapped 0..1 but NOT AC-coupled or kneed (debug)
+  logRange: LogRange;       // fMin/fMax actually spanned by the log bins (see bins.ts helpers)
 };
 
 export type FeatureExtractorOptions = Partial<{
+  // time source for Features.t / dt (see clock.ts); inject one for reproducible output
+  now: Clock;             // wallClock (performance.now())
+
   // FFT→bins config
   logBins: number;        // output bin count for binsLog
   fMin: number;           // 20
@@ -51,17 +155,66 @@ export type FeatureExtractorOptions = Partial<{
   deadband: number;       // 0.02 (post-map, pre-knee)
   knee: number;           // 0.20
 
+  // signal presence
+  silenceDb: number;      // -60 RMS below this counts towards silence
+  signalDb: number;       // -54 RMS at or above this brings the signal back (hysteresis)
+  silenceHoldMs: number;  // 400 quiet this long before hasSignal drops
+  gateMs: number;         // 150 fade time of the AGC outputs when the signal comes and goes
+
   // energy smoothing & onset
   attackMs: number;       // 50
   decayMs: number;        // 220
   onsetWindowMs: number;  // 600
   onsetK: number;         // 1.5 (z-score threshold)
 
+  // named bands (Features.bandMap)
+  bands: BandDef[];               // DEFAULT_BANDS
+
+  // per-band spectral-flux onsets (see onsets.ts)
+  bandOnsetK: Bands;              // { low: 1.8, mid: 2.0, high: 2.0 } std devs above mean flux
+  bandOnsetMinIntervalMs: Bands;  // { low: 120, mid: 100, high: 60 } refractory period
+  bandOnsetWindowMs: number;      // 1000 adaptive mean/variance time constant
+  bandOnsetFloor: number;         // 0.002 absolute minimum flux
+
   // adaptive peak tracking
   peakDecayMs: number;    // 3000 (decay running peaks)
+
+  // beat tracking
+  beat: BeatTrackerOptions;
+
+  // chroma / key
+  chroma: ChromaOptions;
+
+  // timbral descriptors
+  timbre: TimbreOptions;
+
+  // fundamental frequency
+  pitch: PitchOptions;
+
+  // waveform trigger
+  scope: ScopeOptions;
+
+  // stereo image
+  stereo: StereoOptions;
+
+  // section segmentation
+  sections: SectionTrackerOptions;
 }>;
 
+// Scalar options read afresh on every frame, so configure() can change them on a running
+// extractor; everything else sizes buffers or sub-trackers and needs a new one
+export const LIVE_FEATURE_KEYS = [
+  'dbMin', 'dbMax', 'rmsDbMin', 'rmsDbMax', 'dbGamma', 'spatialSmooth',
+  'baselineTauMs', 'deadband', 'knee',
+  'silenceDb', 'signalDb', 'silenceHoldMs', 'gateMs',
+  'attackMs', 'decayMs', 'onsetK', 'peakDecayMs',
+] as const;
+export type LiveFeatureKey = typeof LIVE_FEATURE_KEYS[number];
+export type LiveFeatureOptions = Pick<FeatureExtractorOptions, LiveFeatureKey>;
+
 const DEFAULTS: Required<FeatureExtractorOptions> = {
+  now: wallClock,
+
   logBins: 128,
   fMin: 20,
   fMax: 8000,
@@ -79,13 +232,35 @@ const DEFAULTS: Required<FeatureExtractorOptions> = {
   deadband: 0.02,
   knee: 0.20,
 
+  silenceDb: -60,
+  signalDb: -54,
+  silenceHoldMs: 400,
+  gateMs: 150,
+
   attackMs: 35,
   decayMs: 150,
   onsetWindowMs: 600,
   onsetK: 1.5,
+  bands: DEFAULT_BANDS,
+  bandOnsetK: { low: 1.8, mid: 2.0, high: 2.0 },
+  bandOnsetMinIntervalMs: { low: 120, mid: 100, high: 60 },
+  bandOnsetWindowMs: 1000,
+  bandOnsetFloor: 0.002,
   peakDecayMs: 3000,
+
+  beat: {},
+  chroma: {},
+  timbre: {},
+  pitch: {},
+  scope: {},
+  stereo: {},
+  sections: {},
 };
 
+export function resolveFeatureOptions(opts: FeatureExtractorOptions = {}): Required<FeatureExtractorOptions> {
+  return { ...DEFAULTS, ...opts };
+}
+
 function clamp01(x: number) { return x < 0 ? 0 : x > 1 ? 1 : x; }
 function mapDb01(xDb: number, minDb: number, maxDb: number, gamma = 1) {
   const u = (xDb - minDb) / (maxDb - minDb);
@@ -95,168 +270,674 @@ function expCoeff(dtMs: number, tauMs: number) {
   return Math.exp(-dtMs / Math.max(1, tauMs));
 }
 
-function smooth3(src: Float32Array, out: Float32Array, k: [number, number, number]) {
-  const n = src.length;
-  const [a, b, c] = k; // e.g., [0.25, 0.5, 0.25]
-    for (let i = 0; i < n; i++) {
-    const im1 = (i - 1 + n) % n, ip1 = (i + 1) % n;
-    out[i] = a * src[im1] + b * src[i] + c * src[ip1];
-  }
+function emptyTimbre(mfccCount: number): Timbre {
+  return { flatness: 0, flux: 0, crest: 0, spread: 0, zcr: 0, mfcc: new Float32Array(mfccCount) };
+}
+function emptyOnset(): BandOnset {
+  return { hit: false, strength: 0, lastHitMs: -Infinity };
+}
+const EMPTY_ONSET: BandOnset = emptyOnset();
+const EMPTY_SECTION: Section = emptySection();
+
+// Bands are rewritten every frame. A plain { low, mid, high } literal shares its hidden class
+// with BandOnsets (object-valued fields), which turns every numeric store into an allocation;
+// a class gives them their own double-field shape.
+class BandValues implements Bands {
+  low = 0;
+  mid = 0;
+  high = 0;
+}
+function emptyStereo(bins: number): Stereo {
+  return {
+    balance: 0, width: 0, correlation: 1, bandBalance: new BandValues(),
+    binsLeft: new Float32Array(bins), binsRight: new Float32Array(bins),
+    bandsLeft: new BandValues(), bandsRight: new BandValues(),
+  };
+}
+
+// The fixed low/mid/high summary bands, in Hz
+const SUMMARY_BANDS: ReadonlyArray<readonly [keyof Bands, number, number]> = [
+  ['low', 20, 160],
+  ['mid', 160, 2000],
+  ['high', 2000, 8000],
+];
+
+// Means of arr over the three summary bands, given their cached [lo, hi] log-bin indices
+function bandsInto(out: Bands, arr: Float32Array, idx: Int32Array) {
+  let low = 0, mid = 0, high = 0;
+  for (let i = idx[0]; i <= idx[1]; i++) low += arr[i];
+  for (let i = idx[2]; i <= idx[3]; i++) mid += arr[i];
+  for (let i = idx[4]; i <= idx[5]; i++) high += arr[i];
+  out.low = low / (idx[1] - idx[0] + 1);
+  out.mid = mid / (idx[3] - idx[2] + 1);
+  out.high = high / (idx[5] - idx[4] + 1);
+}
+function copyTimbreInto(dst: Timbre, src: Timbre) {
+  dst.flatness = src.flatness;
+  dst.flux = src.flux;
+  dst.crest = src.crest;
+  dst.spread = src.spread;
+  dst.zcr = src.zcr;
+  dst.mfcc.set(src.mfcc);
+}
+function copyOnsetInto(dst: BandOnset, src: BandOnset) {
+  dst.hit = src.hit;
+  dst.strength = src.strength;
+  dst.lastHitMs = src.lastHitMs;
+}
+
+// A zeroed Features frame sized for the given options (what an extractor fills in place)
+export function createFeatures(opts: FeatureExtractorOptions = {}): Features {
+  const cfg = { ...DEFAULTS, ...opts };
+  const mfccCount = cfg.timbre.mfccCount ?? 13;
+  const bandMap: Record<string, number> = {};
+  const bandMapRaw: Record<string, number> = {};
+  for (const b of cfg.bands) { bandMap[b.name] = 0; bandMapRaw[b.name] = 0; }
+  return {
+    t: 0, dt: 0,
+    hasSignal: false, silenceMs: 0,
+    rmsDb: -Infinity, rms01: 0, rmsPeak01: 0, energy: 0, energyPeak01: 0, onset: false,
+    onsets: { low: emptyOnset(), mid: emptyOnset(), high: emptyOnset() },
+    tempo: { bpm: 0, confidence: 0 },
+    beatPhase: 0, beat: 0, beatInBar: 0, barPhase: 0, isBeat: false, isDownbeat: false,
+    section: emptySection(),
+    bands: new BandValues(),
+    bandsRaw: new BandValues(),
+    bandMap, bandMapRaw,
+    centroidHz: 0, rolloffHz: 0,
+    chroma: new Float32Array(12), pitchClass: -1,
+    key: { tonic: -1, mode: 'major', confidence: 0, name: '' },
+    pitchHz: 0, pitchMidi: -1, pitchCents: 0, pitchClarity: 0,
+    timbre: emptyTimbre(mfccCount), timbreRaw: emptyTimbre(mfccCount),
+    stereo: emptyStereo(cfg.logBins),
+    waveform: new Float32Array(cfg.scope.length ?? 1024), waveformChannels: [], waveformLocked: false,
+    bins: new Float32Array(cfg.logBins),
+    binsLog: new Float32Array(cfg.logBins),
+    binsLogRaw: new Float32Array(cfg.logBins),
+    logRange: { fMin: cfg.fMin, fMax: cfg.fMax },
+  };
 }
 
-function hzToFftIndex(hz: number, fftLen: number, sampleRate: number) {
-  const nyquist = sampleRate * 0.5;
-  const clamped = Math.max(0, Math.min(nyquist, hz));
-  return (clamped / nyquist) * (fftLen - 1);
+// Deep copy of a frame, for layers that need to keep one past the current update()
+export function cloneFeatures(f: Features): Features {
+  return {
+    ...f,
+    onsets: { low: { ...f.onsets.low }, mid: { ...f.onsets.mid }, high: { ...f.onsets.high } },
+    tempo: { ...f.tempo },
+    section: { ...f.section },
+    bands: Object.assign(new BandValues(), f.bands),
+    bandsRaw: Object.assign(new BandValues(), f.bandsRaw),
+    bandMap: { ...f.bandMap },
+    bandMapRaw: { ...f.bandMapRaw },
+    chroma: f.chroma.slice(),
+    key: { ...f.key },
+    timbre: { ...f.timbre, mfcc: f.timbre.mfcc.slice() },
+    timbreRaw: { ...f.timbreRaw, mfcc: f.timbreRaw.mfcc.slice() },
+    stereo: {
+      ...f.stereo,
+      bandBalance: Object.assign(new BandValues(), f.stereo.bandBalance),
+      binsLeft: f.stereo.binsLeft.slice(), binsRight: f.stereo.binsRight.slice(),
+      bandsLeft: Object.assign(new BandValues(), f.stereo.bandsLeft),
+      bandsRight: Object.assign(new BandValues(), f.stereo.bandsRight),
+    },
+    waveform: f.waveform.slice(),
+    waveformChannels: f.waveformChannels.map(c => c.slice()),
+    bins: f.bins.slice(),
+    binsLog: f.binsLog.slice(),
+    binsLogRaw: f.binsLogRaw.slice(),
+    logRange: { ...f.logRange },
+  };
 }
 
 export function createFeatureExtractor(opts: FeatureExtractorOptions = {}) {
   const cfg = { ...DEFAULTS, ...opts };
+  const N = cfg.logBins;
+  const nBands = cfg.bands.length;
+
+  // the frame handed to layers, overwritten every call (see the ownership note at the top)
+  const f = createFeatures(cfg);
+
+  // scalar state lives on an object (see clock.ts)
+  const s = {
+    lastT: cfg.now(),
+    hasSignal: false,
+    silenceMs: 0,
+    gate: 0,            // 0..1 fade applied to the AGC outputs, follows hasSignal
+    energy: 0,
+    energyPeak: 1e-6,   // decaying running max for energy
+    rmsPeak: 1e-6,      // decaying running max for rms01
+    onsetHead: 0,       // next write slot in onsetRing
+    onsetCount: 0,
+    // log-bin geometry cache key (rebuilt when the sample rate / FFT size / log grid change)
+    geomRate: 0,
+    geomFftN: 0,
+    geomLogN: 0,        // 0 while reading the FFT
+    geomLogMin: 0,
+    geomLogMax: 0,
+  };
 
-  // state retained across frames
-  let lastT = performance.now();
-  let baseline: Float32Array | null = null;     // per-log-bin EMA
-  let baselineEnabled = true;
-  let tmpA: Float32Array | null = null;         // temp for smoothing
-  let onsetRing: number[] = [];                 // last few energies for mean/std
-  let energy = 0;
-  let energyPeak = 1e-6;                        // decaying running max for energy
-  let rmsPeak = 1e-6;                           // decaying running max for rms01
-  let binsPeak: Float32Array | null = null;     // per-bin decaying running max for AGC
-
-  return function extract(fftDb: Float32Array, rmsDb: number, sampleRate: number): Features {
-    const t = performance.now();
-    const dt = Math.max(1, t - lastT);
-    lastT = t;
+  // buffers retained across frames
+  const logDb = new Float32Array(N);        // log-resampled spectrum, still dB
+  const binHz = new Float32Array(N);        // centre frequency of each log bin
+  const binSrcIdx = new Float32Array(N);    // fractional index of each log bin into the FFT (or log spectrum)
+  const binFftIdx = new Float32Array(N);    // fractional index of each log bin into the FFT (channel spectra)
+  const summaryIdx = new Int32Array(6);     // [lo, hi] log-bin indices of low/mid/high
+  const fluxBands: Bands = new BandValues();
+  const baseline = new Float32Array(N);     // per-log-bin EMA
+  const baselineEnabled = true;
+  const binsPeak = new Float32Array(N);     // per-bin decaying running max for AGC
+  const prevRaw = new Float32Array(N);      // last frame's binsLogRaw (spectral flux)
+  const fluxBins = new Float32Array(N);     // per-bin positive change
+  let prevRawValid = false;
+  // fixed-size energy ring for the broadband onset; dt is clamped to ≥ 1 ms, so the
+  // window never holds more than onsetWindowMs samples
+  const onsetRing = new Float64Array(Math.max(3, Math.ceil(cfg.onsetWindowMs)));
+  // per named band: AGC running peak + smoothed level
+  const bandPeak = new Float32Array(nBands);
+  const bandLevel = new Float32Array(nBands);
+  const bandRaw = new Float32Array(nBands);
+
+  const trackBeat = createBeatTracker(cfg.beat);
+  const analyzeChroma = createChromaAnalyzer(cfg.chroma);
+  const analyzeTimbre = createTimbreAnalyzer(cfg.timbre);
+  const trackPitch = createPitchTracker(cfg.pitch);
+  const alignScope = createScopeTrigger(cfg.scope);
+  const measureStereo = createStereoMeter(cfg.stereo);
+  const trackSection = createSectionTracker({ mfccCount: cfg.timbre.mfccCount ?? 13, ...cfg.sections });
+  const bandOnset = (band: keyof Bands) => ({
+    k: cfg.bandOnsetK[band],
+    minIntervalMs: cfg.bandOnsetMinIntervalMs[band],
+    windowMs: cfg.bandOnsetWindowMs,
+    floor: cfg.bandOnsetFloor,
+  });
+  const detectOnsets = createBandOnsetDetector({ low: bandOnset('low'), mid: bandOnset('mid'), high: bandOnset('high') });
+  const beatInput: BeatInput = { novelty: 0, low: 0 };
+
+  // mean of dB→unit over the FFT bins inside [loHz, hiHz]; narrow bands interpolate at the centre
+  function fftBand(fftDb: Float32Array, sampleRate: number, loHz: number, hiHz: number) {
+    const n = fftDb.length;
+    const ilo = Math.ceil(hzToFftBin(loHz, n, sampleRate));
+    const ihi = Math.floor(hzToFftBin(hiHz, n, sampleRate));
+    if (ihi < ilo) {
+      const c = hzToFftBin((loHz + hiHz) * 0.5, n, sampleRate);
+      const i0 = Math.max(0, Math.min(n - 2, Math.floor(c)));
+      const frac = c - i0;
+      return mapDb01(fftDb[i0] * (1 - frac) + fftDb[i0 + 1] * frac, cfg.dbMin, cfg.dbMax, cfg.dbGamma);
+    }
+    let sum = 0;
+    for (let i = ilo; i <= ihi; i++) sum += mapDb01(fftDb[i], cfg.dbMin, cfg.dbMax, cfg.dbGamma);
+    return sum / (ihi - ilo + 1);
+  }
 
-    // Guard
-    const fftN = fftDb?.length || 0;
-    if (!fftN || !isFinite(sampleRate) || sampleRate <= 0) {
-      return {
-        t, dt,
-        rmsDb: -Infinity, rms01: 0, rmsPeak01: 0, energy: 0, energyPeak01: 0, onset: false,
-        bands: { low: 0, mid: 0, high: 0 },
-        bandsRaw: { low: 0, mid: 0, high: 0 },
-        centroidHz: 0, rolloffHz: 0,
-        bins: new Float32Array(cfg.logBins),
-        binsLog: new Float32Array(cfg.logBins),
-        binsLogRaw: new Float32Array(cfg.logBins),
-      };
+  // bandMap / bandMapRaw read straight from the level buffers: enumerable getters, so they
+  // behave like plain records (spread, JSON) without a keyed store per band per frame
+  for (let b = 0; b < nBands; b++) {
+    const name = cfg.bands[b].name;
+    Object.defineProperty(f.bandMap, name, { get: () => bandLevel[b], enumerable: true });
+    Object.defineProperty(f.bandMapRaw, name, { get: () => bandRaw[b], enumerable: true });
+  }
+
+  // log-bin centre frequencies, FFT / log-spectrum lookup positions and summary-band ranges
+  function updateGeometry(fftN: number, sampleRate: number, log: LogSpectrum | null) {
+    s.geomRate = sampleRate;
+    s.geomFftN = fftN;
+    s.geomLogN = log ? log.db.length : 0;
+    s.geomLogMin = log ? log.range.fMin : 0;
+    s.geomLogMax = log ? log.range.fMax : 0;
+    const logRange = logGridRange(f.logRange, cfg.fMin, cfg.fMax, sampleRate);
+    for (let i = 0; i < N; i++) {
+      binHz[i] = logBinToHz(i, N, logRange);
+      binFftIdx[i] = hzToFftBin(binHz[i], fftN, sampleRate);
+      binSrcIdx[i] = log ? hzToLogBin(binHz[i], log.db.length, log.range) : binFftIdx[i];
     }
+    for (let k = 0; k < SUMMARY_BANDS.length; k++) {
+      const lo = Math.round(hzToLogBin(SUMMARY_BANDS[k][1], N, logRange));
+      summaryIdx[2 * k] = lo;
+      summaryIdx[2 * k + 1] = Math.max(lo, Math.round(hzToLogBin(SUMMARY_BANDS[k][2], N, logRange)));
+    }
+  }
 
-    // 1) Resample FFT (in dB) to log-spaced bins
-    const out = new Float32Array(cfg.logBins);
-    const ny = sampleRate * 0.5;
-    const fMax = Math.min(cfg.fMax, ny);
-    const fMin = Math.max(1, Math.min(cfg.fMin, fMax - 1));
-    for (let i = 0; i < cfg.logBins; i++) {
-      const tLog = i / (cfg.logBins - 1); // 0..1
-      const hz = fMin * Math.pow(fMax / fMin, tLog);
-      const fftIdx = hzToFftIndex(hz, fftN, sampleRate);
-      // linear interpolate within fftDb (no wrap)
-      const i0 = Math.max(0, Math.min(fftN - 2, Math.floor(fftIdx)));
-      const frac = fftIdx - i0;
-      const v = fftDb[i0] * (1 - frac) + fftDb[i0 + 1] * frac; // still dB
-      out[i] = v;
+  // zero the frame in place (no input yet / invalid input)
+  function clearFrame() {
+    f.rmsDb = -Infinity; f.rms01 = 0; f.rmsPeak01 = 0; f.energy = 0; f.energyPeak01 = 0; f.onset = false;
+    copyOnsetInto(f.onsets.low, EMPTY_ONSET);
+    copyOnsetInto(f.onsets.mid, EMPTY_ONSET);
+    copyOnsetInto(f.onsets.high, EMPTY_ONSET);
+    f.tempo.bpm = 0; f.tempo.confidence = 0;
+    f.beatPhase = 0; f.beat = 0; f.beatInBar = 0; f.barPhase = 0; f.isBeat = false; f.isDownbeat = false;
+    copySectionInto(f.section, EMPTY_SECTION);
+    f.bands.low = 0; f.bands.mid = 0; f.bands.high = 0;
+    f.bandsRaw.low = 0; f.bandsRaw.mid = 0; f.bandsRaw.high = 0;
+    bandLevel.fill(0); bandRaw.fill(0);
+    f.centroidHz = 0; f.rolloffHz = 0;
+    f.chroma.fill(0); f.pitchClass = -1;
+    f.key.tonic = -1; f.key.mode = 'major'; f.key.confidence = 0; f.key.name = '';
+    f.pitchHz = 0; f.pitchMidi = -1; f.pitchCents = 0; f.pitchClarity = 0;
+    f.timbre.flatness = f.timbre.flux = f.timbre.crest = f.timbre.spread = f.timbre.zcr = 0; f.timbre.mfcc.fill(0);
+    f.timbreRaw.flatness = f.timbreRaw.flux = f.timbreRaw.crest = f.timbreRaw.spread = f.timbreRaw.zcr = 0; f.timbreRaw.mfcc.fill(0);
+    const st = f.stereo;
+    st.balance = 0; st.width = 0; st.correlation = 1;
+    st.bandBalance.low = st.bandBalance.mid = st.bandBalance.high = 0;
+    st.binsLeft.fill(0); st.binsRight.fill(0);
+    st.bandsLeft.low = st.bandsLeft.mid = st.bandsLeft.high = 0;
+    st.bandsRight.low = st.bandsRight.mid = st.bandsRight.high = 0;
+    f.waveform.fill(0);
+    for (let c = 0; c < f.waveformChannels.length; c++) f.waveformChannels[c].fill(0);
+    f.waveformLocked = false;
+    f.bins.fill(0); f.binsLog.fill(0); f.binsLogRaw.fill(0);
+  }
+
+  // 0) Signal presence: hold on the way down, hysteresis on the way up; gates the AGC stages
+  function signalStage(rmsDb: number) {
+    const dt = f.dt;
+    s.silenceMs = rmsDb < cfg.silenceDb ? s.silenceMs + dt : 0;
+    if (s.hasSignal) {
+      if (s.silenceMs >= cfg.silenceHoldMs) s.hasSignal = false;
+    } else if (rmsDb >= cfg.signalDb) {
+      s.hasSignal = true;
+    }
+    const a = expCoeff(dt, cfg.gateMs);
+    s.gate = a * s.gate + (1 - a) * (s.hasSignal ? 1 : 0);
+    f.hasSignal = s.hasSignal;
+    f.silenceMs = s.silenceMs;
+  }
+
+  // The pipeline is split into stages that each fill part of `f`. Besides readability this
+  // keeps every stage small enough for the JIT to inline its numeric helpers (see clock.ts).
+
+  // 1–4.5) FFT (or log spectrum) → log bins → dB→unit → AC coupling + knee → per-bin AGC
+  function spectrumStage(fftDb: Float32Array, sampleRate: number, log: LogSpectrum | null) {
+    const dt = f.dt;
+    const fftN = fftDb.length;
+    const logN = log && log.db.length > 1 ? log.db.length : 0;
+    if (!logN) log = null;
+    if (fftN !== s.geomFftN || sampleRate !== s.geomRate || logN !== s.geomLogN ||
+        (log && (log.range.fMin !== s.geomLogMin || log.range.fMax !== s.geomLogMax))) updateGeometry(fftN, sampleRate, log);
+
+    // 1) Resample the source spectrum (in dB) to log-spaced bins
+    const src = log ? log.db : fftDb;
+    const srcN = src.length;
+    for (let i = 0; i < N; i++) {
+      const idx = binSrcIdx[i];
+      // linear interpolate within src (no wrap)
+      const i0 = Math.max(0, Math.min(srcN - 2, Math.floor(idx)));
+      const frac = idx - i0;
+      logDb[i] = src[i0] * (1 - frac) + src[i0 + 1] * frac; // still dB
     }
 
     // 2) Optional spatial smoothing in dB domain
-    if (!tmpA || tmpA.length !== out.length) tmpA = new Float32Array(out.length);
-    if (cfg.spatialSmooth) smooth3(out, tmpA, cfg.spatialKernel); else tmpA.set(out);
+    const binsLogRaw = f.binsLogRaw;
+    if (cfg.spatialSmooth) smooth3(logDb, binsLogRaw, cfg.spatialKernel); else binsLogRaw.set(logDb);
 
     // 3) Map dB→unit (0..1), compress mids with gamma
-    for (let i = 0; i < tmpA.length; i++) {
-      tmpA[i] = mapDb01(tmpA[i], cfg.dbMin, cfg.dbMax, cfg.dbGamma);
+    for (let i = 0; i < N; i++) {
+      binsLogRaw[i] = mapDb01(binsLogRaw[i], cfg.dbMin, cfg.dbMax, cfg.dbGamma);
     }
 
     // 4) Per-bin baseline (AC coupling) + deadband + soft knee
-    if (!baseline || baseline.length !== tmpA.length) baseline = new Float32Array(tmpA.length);
     const aBase = expCoeff(dt, cfg.baselineTauMs); // EMA coeff
-    const binsLog = new Float32Array(tmpA.length);
-    const binsLogRaw = new Float32Array(tmpA.length);
-    for (let i = 0; i < tmpA.length; i++) {
-      const bl = baseline[i] = baselineEnabled ? (baseline[i] * aBase + tmpA[i] * (1 - aBase)) : 0;
-      binsLogRaw[i] = tmpA[i];
-      let d = tmpA[i] - bl - cfg.deadband;
+    const binsLog = f.binsLog;
+    for (let i = 0; i < N; i++) {
+      const bl = baseline[i] = baselineEnabled ? (baseline[i] * aBase + binsLogRaw[i] * (1 - aBase)) : 0;
+      let d = binsLogRaw[i] - bl - cfg.deadband;
       if (d < 0) d = 0;
       const kneeT = d / (cfg.knee + d); // soft knee
       binsLog[i] = kneeT * kneeT;       // emphasize hits, keep small stuff tame
     }
 
-    // 4.5) Per-bin adaptive peak AGC -> bins
-    if (!binsPeak || binsPeak.length !== binsLog.length) binsPeak = new Float32Array(binsLog.length)
-    const bins = new Float32Array(binsLog.length)
-    const peakDecayBins = expCoeff(dt, cfg.peakDecayMs)
-    for (let i = 0; i < binsLog.length; i++) {
-      const peakPrev = binsPeak[i]
-      const peakNext = Math.max(binsLog[i], peakPrev * peakDecayBins)
-      binsPeak[i] = peakNext
-      const denom = peakNext > 1e-5 ? peakNext : 1e-5
-      bins[i] = Math.min(1, binsLog[i] / denom)
+    // 4.5) Per-bin adaptive peak AGC -> bins (peaks held and output gated in silence)
+    const bins = f.bins;
+    const peakDecayBins = s.hasSignal ? expCoeff(dt, cfg.peakDecayMs) : 1;
+    const gate = s.gate;
+    for (let i = 0; i < N; i++) {
+      const peakNext = Math.max(binsLog[i], binsPeak[i] * peakDecayBins);
+      binsPeak[i] = peakNext;
+      const denom = peakNext > 1e-5 ? peakNext : 1e-5;
+      bins[i] = Math.min(1, binsLog[i] / denom) * gate;
     }
+  }
 
-    // 5) Summaries on binsLog
-    const band = (arr: Float32Array, loHz: number, hiHz: number) => {
-      if (hiHz <= loHz) return 0;
-      const ilo = Math.max(0, Math.min(arr.length - 1, Math.round((Math.log(loHz) - Math.log(fMin)) / (Math.log(fMax) - Math.log(fMin)) * (arr.length - 1))));
-      const ihi = Math.max(ilo, Math.min(arr.length - 1, Math.round((Math.log(hiHz) - Math.log(fMin)) / (Math.log(fMax) - Math.log(fMin)) * (arr.length - 1))));
-      let s = 0; for (let i = ilo; i <= ihi; i++) s += arr[i];
-      return s / Math.max(1, ihi - ilo + 1);
-    };
-    const bands: Bands = {
-      low: band(binsLog, 20, 160),
-      mid: band(binsLog, 160, 2000),
-      high: band(binsLog, 2000, 8000),
-    };
-    const bandsRaw: Bands = {
-      low: band(binsLogRaw, 20, 160),
-      mid: band(binsLogRaw, 160, 2000),
-      high: band(binsLogRaw, 2000, 8000),
-    };
+  // 5) Summaries on binsLog
+  function summaryStage() {
+    const binsLog = f.binsLog;
+    bandsInto(f.bands, binsLog, summaryIdx);
+    bandsInto(f.bandsRaw, f.binsLogRaw, summaryIdx);
 
     // centroid & rolloff (use mapped magnitudes as weights; crude but stable)
-    let wSum = 0, fSum = 0, cum = 0, rollHz = fMin;
-    const target = 0.85 * binsLog.reduce((s, v) => s + v, 0);
-    for (let i = 0; i < binsLog.length; i++) {
-      const tLog = i / (binsLog.length - 1);
-      const hz = fMin * Math.pow(fMax / fMin, tLog);
+    let total = 0;
+    for (let i = 0; i < N; i++) total += binsLog[i];
+    let wSum = 0, fSum = 0, cum = 0, rollHz = f.logRange.fMin;
+    const target = 0.85 * total;
+    for (let i = 0; i < N; i++) {
+      const hz = binHz[i];
       const w = binsLog[i];
       wSum += w; fSum += w * hz;
       cum += w;
       if (cum >= target) { rollHz = hz; break; }
     }
-    const centroidHz = wSum > 0 ? fSum / wSum : 0;
+    f.centroidHz = wSum > 0 ? fSum / wSum : 0;
+    f.rolloffHz = rollHz;
+  }
+
+  // 5.5) Named bands: dB→unit on the linear FFT, optional AGC, attack/decay smoothing
+  function namedBandStage(fftDb: Float32Array, sampleRate: number) {
+    const dt = f.dt;
+    const peakDecayBands = s.hasSignal ? expCoeff(dt, cfg.peakDecayMs) : 1;
+    for (let b = 0; b < nBands; b++) {
+      const def = cfg.bands[b];
+      const raw = fftBand(fftDb, sampleRate, def.loHz, def.hiHz);
+      bandRaw[b] = raw;
+      let v = raw;
+      if (def.agc !== false) {
+        bandPeak[b] = Math.max(raw, bandPeak[b] * peakDecayBands);
+        v = bandPeak[b] > 1e-5 ? clamp01(raw / bandPeak[b]) * s.gate : 0;
+      }
+      const a = v > bandLevel[b]
+        ? expCoeff(dt, def.attackMs ?? cfg.attackMs)
+        : expCoeff(dt, def.decayMs ?? cfg.decayMs);
+      bandLevel[b] = a * bandLevel[b] + (1 - a) * v;
+    }
+  }
 
-    // 6) RMS mapping + energy smoothing + onset
+  // 6) RMS mapping + energy smoothing + broadband onset
+  function meterStage(rmsDb: number) {
+    const dt = f.dt;
     const rms01 = mapDb01(rmsDb, cfg.rmsDbMin, cfg.rmsDbMax, 1.0);
     const aAtk = expCoeff(dt, cfg.attackMs), aDec = expCoeff(dt, cfg.decayMs);
-    const targetEnergy = rms01;
-    energy = targetEnergy > energy ? (aAtk * energy + (1 - aAtk) * targetEnergy)
-                                   : (aDec * energy + (1 - aDec) * targetEnergy);
+    const prevEnergy = s.energy;
+    const energy = s.energy = rms01 > prevEnergy ? (aAtk * prevEnergy + (1 - aAtk) * rms01)
+                                                 : (aDec * prevEnergy + (1 - aDec) * rms01);
 
     // adaptive peaks (decaying running maxima)
-    const peakDecay = expCoeff(dt, cfg.peakDecayMs);
-    rmsPeak = Math.max(rms01, rmsPeak * peakDecay);
-    energyPeak = Math.max(energy, energyPeak * peakDecay);
-    const rmsPeak01 = rmsPeak > 1e-6 ? clamp01(rms01 / rmsPeak) : 0;
-    const energyPeak01 = energyPeak > 1e-6 ? clamp01(energy / energyPeak) : 0;
-
-    // maintain an energy ring buffer ~ onsetWindowMs
-    const maxSamples = Math.max(3, Math.floor(cfg.onsetWindowMs / dt));
-    onsetRing.push(energy);
-    while (onsetRing.length > maxSamples) onsetRing.shift();
-    // mean/std
-    let m = 0; for (const v of onsetRing) m += v; m /= onsetRing.length;
-    let v2 = 0; for (const v of onsetRing) { const d = v - m; v2 += d * d; }
-    const std = Math.sqrt(v2 / Math.max(1, onsetRing.length - 1));
-    const onset = (energy - m) > (cfg.onsetK * std + 0.02); // small bias
+    const peakDecay = s.hasSignal ? expCoeff(dt, cfg.peakDecayMs) : 1;
+    s.rmsPeak = Math.max(rms01, s.rmsPeak * peakDecay);
+    s.energyPeak = Math.max(energy, s.energyPeak * peakDecay);
+    f.rmsDb = rmsDb;
+    f.rms01 = rms01;
+    f.rmsPeak01 = s.rmsPeak > 1e-6 ? clamp01(rms01 / s.rmsPeak) * s.gate : 0;
+    f.energy = energy;
+    f.energyPeak01 = s.energyPeak > 1e-6 ? clamp01(energy / s.energyPeak) * s.gate : 0;
+
+    // energy ring: stats over the most recent ~onsetWindowMs of frames
+    const cap = onsetRing.length;
+    onsetRing[s.onsetHead] = energy;
+    s.onsetHead = (s.onsetHead + 1) % cap;
+    if (s.onsetCount < cap) s.onsetCount++;
+    const win = Math.min(s.onsetCount, Math.max(3, Math.floor(cfg.onsetWindowMs / dt)));
+    let m = 0;
+    for (let k = 1; k <= win; k++) m += onsetRing[(s.onsetHead - k + cap) % cap];
+    m /= win;
+    let v2 = 0;
+    for (let k = 1; k <= win; k++) { const d = onsetRing[(s.onsetHead - k + cap) % cap] - m; v2 += d * d; }
+    const std = Math.sqrt(v2 / Math.max(1, win - 1));
+    f.onset = (energy - m) > (cfg.onsetK * std + 0.02); // small bias
+  }
 
+  // 7) Spectral flux (positive change of raw bins): per-band onsets + beat tracking
+  function rhythmStage(onsets?: BandOnsets | null) {
+    const binsLogRaw = f.binsLogRaw;
+    if (!prevRawValid) { prevRaw.set(binsLogRaw); prevRawValid = true; }
+    let flux = 0;
+    for (let i = 0; i < N; i++) {
+      const d = binsLogRaw[i] - prevRaw[i];
+      fluxBins[i] = d > 0 ? d : 0;
+      flux += fluxBins[i];
+      prevRaw[i] = binsLogRaw[i];
+    }
+    flux /= N;
+    bandsInto(fluxBands, fluxBins, summaryIdx);
+    const det = onsets ?? detectOnsets(f, fluxBands);
+    copyOnsetInto(f.onsets.low, det.low);
+    copyOnsetInto(f.onsets.mid, det.mid);
+    copyOnsetInto(f.onsets.high, det.high);
+    beatInput.novelty = flux;
+    beatInput.low = f.bandsRaw.low;
+    const bt = trackBeat(f, beatInput);
+    f.tempo.bpm = bt.tempo.bpm;
+    f.tempo.confidence = bt.tempo.confidence;
+    f.beatPhase = bt.beatPhase; f.beat = bt.beat; f.beatInBar = bt.beatInBar; f.barPhase = bt.barPhase;
+    f.isBeat = bt.isBeat; f.isDownbeat = bt.isDownbeat;
+  }
+
+  // 8–10) Chroma/key, timbre, pitch, trigger-aligned waveform
+  function analysisStage(fftDb: Float32Array, sampleRate: number, waveform?: Float32Array, channels?: Float32Array[]) {
+    const ch = analyzeChroma(fftDb, sampleRate, f);
+    f.chroma.set(ch.chroma);
+    f.pitchClass = ch.pitchClass;
+    f.key.tonic = ch.key.tonic; f.key.mode = ch.key.mode;
+    f.key.confidence = ch.key.confidence; f.key.name = ch.key.name;
+
+    const tb = analyzeTimbre(fftDb, sampleRate, f, waveform);
+    copyTimbreInto(f.timbre, tb.norm);
+    copyTimbreInto(f.timbreRaw, tb.raw);
+
+    // hiss has no pitch worth following
+    const p = trackPitch(s.hasSignal ? waveform : undefined, sampleRate, f);
+    f.pitchHz = p.hz; f.pitchMidi = p.midi; f.pitchCents = p.cents; f.pitchClarity = p.clarity;
+
+    const sc = alignScope(waveform, channels);
+    f.waveform.set(sc.waveform);
+    if (f.waveformChannels.length !== sc.channels.length) {
+      // only when the channel count changes (mono ↔ stereo source)
+      f.waveformChannels = sc.channels.map(c => new Float32Array(c.length));
+    }
+    for (let c = 0; c < sc.channels.length; c++) f.waveformChannels[c].set(sc.channels[c]);
+    f.waveformLocked = sc.locked;
+  }
+
+  // FFT (dB) → log bins → dB→unit, the binsLogRaw recipe for one channel's spectrum
+  function channelBinsInto(out: Float32Array, fftDb: Float32Array) {
+    const n = fftDb.length;
+    for (let i = 0; i < N; i++) {
+      const idx = binFftIdx[i];
+      const i0 = Math.max(0, Math.min(n - 2, Math.floor(idx)));
+      const frac = idx - i0;
+      logDb[i] = fftDb[i0] * (1 - frac) + fftDb[i0 + 1] * frac;
+    }
+    if (cfg.spatialSmooth) smooth3(logDb, out, cfg.spatialKernel); else out.set(logDb);
+    for (let i = 0; i < N; i++) out[i] = mapDb01(out[i], cfg.dbMin, cfg.dbMax, cfg.dbGamma);
+  }
+
+  // 10.5) Stereo: per-channel bins and bands from the channel spectra, balance / width / correlation
+  function stereoStage(fftN: number, channels?: Float32Array[], channelFft?: Float32Array[] | null) {
+    const st = f.stereo;
+    const left = channelFft?.[0], right = channelFft?.[1];
+    if (left && right && left.length === fftN && right.length === fftN) {
+      channelBinsInto(st.binsLeft, left);
+      channelBinsInto(st.binsRight, right);
+    } else {
+      st.binsLeft.set(f.binsLogRaw);
+      st.binsRight.set(f.binsLogRaw);
+    }
+    bandsInto(st.bandsLeft, st.binsLeft, summaryIdx);
+    bandsInto(st.bandsRight, st.binsRight, summaryIdx);
+
+    const stereo = channels && channels.length >= 2;
+    const img = measureStereo(stereo ? channels[0] : undefined, stereo ? channels[1] : undefined, st.bandsLeft, st.bandsRight, f);
+    st.balance = img.balance; st.width = img.width; st.correlation = img.correlation;
+    st.bandBalance.low = img.bandBalance.low;
+    st.bandBalance.mid = img.bandBalance.mid;
+    st.bandBalance.high = img.bandBalance.high;
+  }
+
+  // 11) Section segmentation over chroma, timbre and loudness
+  function structureStage() {
+    copySectionInto(f.section, trackSection(f));
+  }
+
+  // onsets: per-band onsets already detected upstream (the analysis worklet) with this
+  // extractor's onsetTuning(); replaces the extractor's own detection when given. log: the worklet's log-frequency spectrum, if any.
+  // channelFft: per-channel dB spectra on the same grid as fftDb, for the stereo features
+  function extract(fftDb: Float32Array, rmsDb: number, sampleRate: number, waveform?: Float32Array, channels?: Float32Array[], onsets?: BandOnsets | null, log?: LogSpectrum | null, channelFft?: Float32Array[] | null): Features {
+    const t = cfg.now();
+    const dt = Math.max(1, t - s.lastT);
+    s.lastT = t;
+    f.t = t;
+    f.dt = dt;
+
+    // Guard
+    if (!fftDb?.length || !isFinite(sampleRate) || sampleRate <= 0) {
+      clearFrame();
+      signalStage(-Infinity);
+      return f;
+    }
+
+    signalStage(rmsDb);
+    spectrumStage(fftDb, sampleRate, log ?? null);
+    summaryStage();
+    namedBandStage(fftDb, sampleRate);
+    meterStage(rmsDb);
+    rhythmStage(onsets);
+    analysisStage(fftDb, sampleRate, waveform, channels);
+    stereoStage(fftDb.length, channels, channelFft);
+    structureStage();
+    return f;
+  }
+
+  // Retune the live options in place: running peaks, baselines and trackers carry on
+  function configure(patch: LiveFeatureOptions) {
+    for (const key of LIVE_FEATURE_KEYS) {
+      const v = patch[key];
+      if (v !== undefined) (cfg as Record<LiveFeatureKey, number | boolean>)[key] = v;
+    }
+  }
+
+  // The flux mapping and thresholds of the band-onset detection, for upstream detectors
+  function onsetTuning(): OnsetTuning {
     return {
-      t, dt,
-      rmsDb, rms01, rmsPeak01, energy, energyPeak01, onset,
-      bands, bandsRaw, centroidHz, rolloffHz: rollHz,
-      bins, binsLog, binsLogRaw, // normalized + processed + raw
+      fluxBins: N,
+      fluxMinHz: cfg.fMin,
+      fluxMaxHz: cfg.fMax,
+      spatialSmooth: cfg.spatialSmooth,
+      spatialKernel: cfg.spatialKernel,
+      dbMin: cfg.dbMin,
+      dbMax: cfg.dbMax,
+      dbGamma: cfg.dbGamma,
+      onsets: { low: bandOnset('low'), mid: bandOnset('mid'), high: bandOnset('high') },
     };
-  };
+  }
+
+  return Object.assign(extract, { configure, onsetTuning });
 }
 
+export type FeatureExtractor = ReturnType<typeof createFeatureExtractor>;
+
+function lerp(a: number, b: number, w: number) { return a + (b - a) * w; }
+// Levels are -Infinity dB on digital silence, which lerp would turn into NaN
+const BLEND_DB_FLOOR = -160;
+function lerpDb(a: number, b: number, w: number) { return lerp(Math.max(BLEND_DB_FLOOR, a), Math.max(BLEND_DB_FLOOR, b), w); }
+function lerpBandsInto(out: Bands, a: Bands, b: Bands, w: number) {
+  out.low = lerp(a.low, b.low, w);
+  out.mid = lerp(a.mid, b.mid, w);
+  out.high = lerp(a.high, b.high, w);
+}
+function lerpRecordInto(out: Record<string, number>, a: Record<string, number>, b: Record<string, number>, w: number) {
+  for (const k in b) out[k] = k in a ? lerp(a[k], b[k], w) : b[k];
+}
+function lerpArrayInto(out: Float32Array, a: Float32Array, b: Float32Array, w: number) {
+  if (a.length !== b.length || out.length !== b.length) { if (out.length === b.length) out.set(b); return; }
+  for (let i = 0; i < b.length; i++) out[i] = a[i] + (b[i] - a[i]) * w;
+}
+function lerpTimbreInto(out: Timbre, a: Timbre, b: Timbre, w: number) {
+  out.flatness = lerp(a.flatness, b.flatness, w);
+  out.flux = lerp(a.flux, b.flux, w);
+  out.crest = lerp(a.crest, b.crest, w);
+  out.spread = lerp(a.spread, b.spread, w);
+  out.zcr = lerp(a.zcr, b.zcr, w);
+  lerpArrayInto(out.mfcc, a.mfcc, b.mfcc, w);
+}
+
+// Crossfade two feature frames (w = 0 → a, 1 → b). Used to hide the restart of
+// adaptive state (peaks, baselines) when the extractor is reset on a source/track change.
+// Timing and boolean events come from b. Pass `out` (e.g. a cloneFeatures() of an earlier
+// frame) to blend without allocating; it is written in place and returned.
+export function blendFeatures(a: Features, b: Features, w: number, out: Features = cloneFeatures(b)): Features {
+  const k = clamp01(w);
+  out.t = b.t; out.dt = b.dt;
+  out.hasSignal = b.hasSignal; out.silenceMs = b.silenceMs;
+  out.rmsDb = lerpDb(a.rmsDb, b.rmsDb, k);
+  out.rms01 = lerp(a.rms01, b.rms01, k);
+  out.rmsPeak01 = lerp(a.rmsPeak01, b.rmsPeak01, k);
+  out.energy = lerp(a.energy, b.energy, k);
+  out.energyPeak01 = lerp(a.energyPeak01, b.energyPeak01, k);
+  out.onset = b.onset;
+  copyOnsetInto(out.onsets.low, b.onsets.low);
+  copyOnsetInto(out.onsets.mid, b.onsets.mid);
+  copyOnsetInto(out.onsets.high, b.onsets.high);
+  out.tempo.bpm = b.tempo.bpm; out.tempo.confidence = b.tempo.confidence;
+  out.beatPhase = b.beatPhase; out.beat = b.beat; out.beatInBar = b.beatInBar; out.barPhase = b.barPhase;
+  out.isBeat = b.isBeat; out.isDownbeat = b.isDownbeat;
+  copySectionInto(out.section, b.section);
+  lerpBandsInto(out.bands, a.bands, b.bands, k);
+  lerpBandsInto(out.bandsRaw, a.bandsRaw, b.bandsRaw, k);
+  lerpRecordInto(out.bandMap, a.bandMap, b.bandMap, k);
+  lerpRecordInto(out.bandMapRaw, a.bandMapRaw, b.bandMapRaw, k);
+  out.centroidHz = lerp(a.centroidHz, b.centroidHz, k);
+  out.rolloffHz = lerp(a.rolloffHz, b.rolloffHz, k);
+  lerpArrayInto(out.chroma, a.chroma, b.chroma, k);
+  out.pitchClass = b.pitchClass;
+  out.key.tonic = b.key.tonic; out.key.mode = b.key.mode;
+  out.key.confidence = b.key.confidence; out.key.name = b.key.name;
+  out.pitchHz = b.pitchHz; out.pitchMidi = b.pitchMidi; out.pitchCents = b.pitchCents;
+  out.pitchClarity = lerp(a.pitchClarity, b.pitchClarity, k);
+  lerpTimbreInto(out.timbre, a.timbre, b.timbre, k);
+  lerpTimbreInto(out.timbreRaw, a.timbreRaw, b.timbreRaw, k);
+  out.stereo.balance = lerp(a.stereo.balance, b.stereo.balance, k);
+  out.stereo.width = lerp(a.stereo.width, b.stereo.width, k);
+  out.stereo.correlation = lerp(a.stereo.correlation, b.stereo.correlation, k);
+  lerpBandsInto(out.stereo.bandBalance, a.stereo.bandBalance, b.stereo.bandBalance, k);
+  lerpArrayInto(out.stereo.binsLeft, a.stereo.binsLeft, b.stereo.binsLeft, k);
+  lerpArrayInto(out.stereo.binsRight, a.stereo.binsRight, b.stereo.binsRight, k);
+  lerpBandsInto(out.stereo.bandsLeft, a.stereo.bandsLeft, b.stereo.bandsLeft, k);
+  lerpBandsInto(out.stereo.bandsRight, a.stereo.bandsRight, b.stereo.bandsRight, k);
+  lerpArrayInto(out.waveform, a.waveform, b.waveform, k);
+  if (out.waveformChannels.length !== b.waveformChannels.length) {
+    out.waveformChannels = b.waveformChannels.map(c => c.slice());
+  } else if (a.waveformChannels.length === b.waveformChannels.length) {
+    for (let c = 0; c < b.waveformChannels.length; c++) {
+      lerpArrayInto(out.waveformChannels[c], a.waveformChannels[c], b.waveformChannels[c], k);
+    }
+  } else {
+    for (let c = 0; c < b.waveformChannels.length; c++) out.waveformChannels[c].set(b.waveformChannels[c]);
+  }
+  out.waveformLocked = b.waveformLocked;
+  lerpArrayInto(out.bins, a.bins, b.bins, k);
+  lerpArrayInto(out.binsLog, a.binsLog, b.binsLog, k);
+  lerpArrayInto(out.binsLogRaw, a.binsLogRaw, b.binsLogRaw, k);
+  out.logRange.fMin = b.logRange.fMin; out.logRange.fMax = b.logRange.fMax;
+  return out;
+}
+
+// When several extractor frames are consumed per render (see analysis.ts), one-frame pulses
+// (onset, per-band hits, isBeat, isDownbeat, section.changed) from any of them must still reach the layers once.
+// collect() after every extract; apply() to the frame handed to the layers, which then carries
+// the OR of the pulses and a dt spanning all collected frames. clear() before the next render.
+export function createPulseLatch() {
+  const s = { dt: 0, onset: false, low: false, mid: false, high: false, beat: false, downbeat: false, section: false };
+  return {
+    clear() {
+      s.dt = 0;
+      s.onset = s.low = s.mid = s.high = s.beat = s.downbeat = s.section = false;
+    },
+    collect(f: Features) {
+      s.dt += f.dt;
+      s.onset ||= f.onset;
+      s.low ||= f.onsets.low.hit;
+      s.mid ||= f.onsets.mid.hit;
+      s.high ||= f.onsets.high.hit;
+      s.beat ||= f.isBeat;
+      s.downbeat ||= f.isDownbeat;
+      s.section ||= f.section.changed;
+    },
+    apply(f: Features) {
+      f.dt = s.dt;
+      f.onset = s.onset;
+      f.onsets.low.hit = s.low;
+      f.onsets.mid.hit = s.mid;
+      f.onsets.high.hit = s.high;
+      f.isBeat = s.beat;
+      f.isDownbeat = s.downbeat;
+      f.section.changed = s.section;
+    },
+  };
+}
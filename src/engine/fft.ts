@@ -0,0 +1,63 @@
+// In-place radix-2 FFT (see spectrum.ts for the AnalyserNode-style wrapper).
+// Twiddles and the bit-reversal permutation are precomputed per size, so a transform
+// allocates nothing. The window matches AnalyserNode (Blackman, α = 0.16) so magnitudes
+// in dB line up with what Tone.Analyser reports and the extractor's dbMin/dbMax still fit.
+
+export type Fft = {
+  size: number;
+  forward(re: Float32Array, im: Float32Array): void; // length `size`, transformed in place
+};
+
+export function createFft(size: number): Fft {
+  if (size < 2 || (size & (size - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${size}`);
+  const half = size >> 1;
+  const cos = new Float32Array(half);
+  const sin = new Float32Array(half);
+  for (let i = 0; i < half; i++) {
+    cos[i] = Math.cos(-2 * Math.PI * i / size);
+    sin[i] = Math.sin(-2 * Math.PI * i / size);
+  }
+  const rev = new Uint32Array(size);
+  const bits = Math.log2(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r = (r << 1) | ((i >> b) & 1);
+    rev[i] = r;
+  }
+
+  function forward(re: Float32Array, im: Float32Array) {
+    for (let i = 0; i < size; i++) {
+      const j = rev[i];
+      if (j > i) {
+        const tr = re[i]; re[i] = re[j]; re[j] = tr;
+        const ti = im[i]; im[i] = im[j]; im[j] = ti;
+      }
+    }
+    for (let len = 2; len <= size; len <<= 1) {
+      const step = size / len;
+      const h = len >> 1;
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < h; k++) {
+          const wr = cos[k * step], wi = sin[k * step];
+          const a = start + k, b = a + h;
+          const xr = re[b] * wr - im[b] * wi;
+          const xi = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - xr; im[b] = im[a] - xi;
+          re[a] += xr; im[a] += xi;
+        }
+      }
+    }
+  }
+
+  return { size, forward };
+}
+
+export function blackmanWindow(size: number): Float32Array {
+  const w = new Float32Array(size);
+  const a0 = 0.42, a1 = 0.5, a2 = 0.08;
+  for (let i = 0; i < size; i++) {
+    const x = 2 * Math.PI * i / size;
+    w[i] = a0 - a1 * Math.cos(x) + a2 * Math.cos(2 * x);
+  }
+  return w;
+}
@@ -1,4 +1,9 @@
 import * as THREE from 'three'
+import type { Transport } from './transport'
+import type { TrackTimeline } from './timeline'
+import type { FeatureEvents } from './events'
+import { DEFAULT_BANDS, type Features } from './features'
+import { createModulatorRack, defaultModulator, parseModulator, type ModulatorDef, type ModulatorKind } from './modulators'
 
 export type Control =
   | { kind: 'slider'; key: string; label: string; min: number; max: number; step: number; default: number }
@@ -12,6 +17,9 @@ export type LayerContext = {
   canvas: HTMLCanvasElement
   dpr: number
   size: { w: number; h: number }
+  transport: Transport | null // playback clock for file sources (null when none)
+  timeline: TrackTimeline | null // whole-track analysis of the current file; query at transport.position()
+  events: FeatureEvents // onset/beat/bar/section/silence/source events; subscribe in init(), dropped after dispose()
 }
 
 export interface Layer {
@@ -20,8 +28,13 @@ export interface Layer {
   controls: Control[]
   state: Record<string, any>
   init(ctx: LayerContext): void
-  update(ctx: LayerContext, f: import('./features').Features): void
+  // All timing comes from f.t / f.dt (never performance.now()) and any randomness from a
+  // seeded Rng (see random.ts), so the same Features sequence always renders the same frames
+  update(ctx: LayerContext, f: Features): void
   setEnabled(on: boolean): void
+  // Optional: fade the whole layer (0..1, multiplied into its own alpha) for scene
+  // transitions; layers without it appear and disappear at the transition's switch point
+  setOpacity?(opacity: number): void
   dispose(): void
 }
 
@@ -62,4 +75,364 @@ export function loadState(id: string): Record<string, any> {
   }
 }
 
+// Modulation matrix: Features values driving layer sliders on top of their saved values.
+// Each modulation maps a source (MOD_SOURCES or a named band) from its [lo, hi] range to 0..1, shapes it with
+// a curve, smooths it, and adds depth × that × the slider's span to the slider's base value
+// (several on one slider add up; the result is clamped and snapped to the slider's step).
+// Besides Features values, sources include the rack's modulators (LFOs, envelopes, step
+// sequencers; see modulators.ts) as `mod:<id>`; the rack is saved along with the modulations.
+// The host ticks the rack, applies the modulated values to layer.state for the frame (events
+// and update()) and restores the base values afterwards, so edits and saveState() only ever
+// see the base.
 
+export type ModCurve = 'linear' | 'exp' | 'log' | 'smooth'
+
+export type Modulation = {
+  id: string
+  source: string   // MOD_SOURCES id, `bandMap.<name>`, or `mod:<id>` for a rack modulator
+  layerId: string
+  key: string      // slider key on that layer
+  depth: number    // -1..1 fraction of the slider's span at full source
+  lo: number       // source value read as 0 (defaults to the source's range)
+  hi: number       // source value read as 1
+  curve: ModCurve
+  smoothMs: number // 0 = unsmoothed
+  enabled: boolean
+}
+
+// what the editor may change on an existing modulation
+export type ModulationPatch = Partial<Omit<Modulation, 'id' | 'layerId' | 'key'>>
+
+export type ModSource = {
+  id: string
+  label: string
+  lo: number // typical range
+  hi: number
+  read: (f: Features) => number
+}
+
+// onset envelopes: 1 on the hit, decaying over ONSET_ENVELOPE_MS
+const ONSET_ENVELOPE_MS = 250
+function onsetEnvelope(f: Features, band: 'low' | 'mid' | 'high') {
+  const since = f.t - f.onsets[band].lastHitMs
+  return since >= 0 ? Math.exp(-since / ONSET_ENVELOPE_MS) : 0
+}
+
+// One of the running extractor's named bands (FeatureExtractorOptions.bands)
+function bandSource(name: string): ModSource {
+  return { id: `bandMap.${name}`, label: `Band: ${name}`, lo: 0, hi: 1, read: f => f.bandMap[name] ?? 0 }
+}
+
+export const MOD_SOURCES: ModSource[] = [
+  { id: 'energy', label: 'Energy', lo: 0, hi: 1, read: f => f.energy },
+  { id: 'energyPeak01', label: 'Energy (AGC)', lo: 0, hi: 1, read: f => f.energyPeak01 },
+  { id: 'rms01', label: 'Loudness', lo: 0, hi: 1, read: f => f.rms01 },
+  { id: 'rmsPeak01', label: 'Loudness (AGC)', lo: 0, hi: 1, read: f => f.rmsPeak01 },
+  { id: 'bands.low', label: 'Low band', lo: 0, hi: 1, read: f => f.bands.low },
+  { id: 'bands.mid', label: 'Mid band', lo: 0, hi: 1, read: f => f.bands.mid },
+  { id: 'bands.high', label: 'High band', lo: 0, hi: 1, read: f => f.bands.high },
+  { id: 'onsets.low', label: 'Kick envelope', lo: 0, hi: 1, read: f => onsetEnvelope(f, 'low') },
+  { id: 'onsets.mid', label: 'Snare envelope', lo: 0, hi: 1, read: f => onsetEnvelope(f, 'mid') },
+  { id: 'onsets.high', label: 'Hi-hat envelope', lo: 0, hi: 1, read: f => onsetEnvelope(f, 'high') },
+  { id: 'beatPulse', label: 'Beat pulse', lo: 0, hi: 1, read: f => Math.exp(-f.beatPhase * 5) },
+  { id: 'beatPhase', label: 'Beat phase', lo: 0, hi: 1, read: f => f.beatPhase },
+  { id: 'barPhase', label: 'Bar phase', lo: 0, hi: 1, read: f => f.barPhase },
+  { id: 'tempo.bpm', label: 'Tempo (BPM)', lo: 60, hi: 180, read: f => f.tempo.bpm },
+  { id: 'centroidHz', label: 'Brightness (centroid Hz)', lo: 200, hi: 5000, read: f => f.centroidHz },
+  { id: 'rolloffHz', label: 'Rolloff (Hz)', lo: 500, hi: 8000, read: f => f.rolloffHz },
+  { id: 'pitchMidi', label: 'Pitch (MIDI)', lo: 36, hi: 96, read: f => f.pitchMidi < 0 ? 36 : f.pitchMidi },
+  { id: 'pitchClarity', label: 'Pitch clarity', lo: 0, hi: 1, read: f => f.pitchClarity },
+  { id: 'key.confidence', label: 'Key confidence', lo: 0, hi: 1, read: f => f.key.confidence },
+  { id: 'timbre.flatness', label: 'Noisiness', lo: 0, hi: 1, read: f => f.timbre.flatness },
+  { id: 'timbre.flux', label: 'Spectral flux', lo: 0, hi: 1, read: f => f.timbre.flux },
+  { id: 'timbre.crest', label: 'Peakiness', lo: 0, hi: 1, read: f => f.timbre.crest },
+  { id: 'timbre.spread', label: 'Spread', lo: 0, hi: 1, read: f => f.timbre.spread },
+  { id: 'stereo.balance', label: 'Stereo balance', lo: -1, hi: 1, read: f => f.stereo.balance },
+  { id: 'stereo.width', label: 'Stereo width', lo: 0, hi: 1, read: f => f.stereo.width },
+  { id: 'section.elapsedMs', label: 'Section time (ms)', lo: 0, hi: 60000, read: f => f.section.elapsedMs },
+]
+
+const MOD_STORAGE_KEY = 'reveri.modulation'
+const MODULATOR_PREFIX = 'mod:'
+
+// Everything the matrix saves: its modulations and the rack's modulators (also what scenes carry)
+export type ModulationState = { mods: Modulation[]; modulators: ModulatorDef[] }
+
+const MODULATOR_LABELS: Record<ModulatorKind, string> = { lfo: 'LFO', adsr: 'Envelope', steps: 'Steps' }
+
+function shape(x: number, curve: ModCurve) {
+  switch (curve) {
+    case 'exp': return x * x
+    case 'log': return Math.sqrt(x)
+    case 'smooth': return x * x * (3 - 2 * x)
+    default: return x
+  }
+}
+
+type Slider = Extract<Control, { kind: 'slider' }>
+
+// A modulation resolved against its slider and source; level is the smoothed, shaped source
+type Binding = { mod: Modulation; src: ModSource; ctrl: Slider; target: number; level: number }
+
+// One layer's enabled modulations and the scratch apply() reuses every frame. Bindings are
+// resolved against the layer on its first frame after an edit (layer is null until then).
+type LayerMods = {
+  mods: Modulation[]
+  layer: Layer | null
+  bindings: Binding[]
+  targets: Slider[]       // the modulated sliders; Binding.target indexes these
+  offsets: Float64Array   // per target, summed over its bindings
+  base: Float64Array      // per target, the base value held while applied
+  applied: boolean
+  live: Record<string, number>
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === 'object'
+}
+
+const MOD_CURVES: ModCurve[] = ['linear', 'exp', 'log', 'smooth']
+
+function finite(x: unknown, fallback: number) {
+  return typeof x === 'number' && isFinite(x) ? x : fallback
+}
+
+// A modulation from untrusted JSON: ids and target are required, the rest falls back to defaults
+function parseModulation(raw: unknown): Modulation | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.layerId !== 'string' || typeof raw.key !== 'string' || typeof raw.source !== 'string') return null
+  return {
+    id: raw.id, layerId: raw.layerId, key: raw.key, source: raw.source,
+    depth: Math.max(-1, Math.min(1, finite(raw.depth, 0.5))),
+    lo: finite(raw.lo, 0),
+    hi: finite(raw.hi, 1),
+    curve: MOD_CURVES.includes(raw.curve as ModCurve) ? raw.curve as ModCurve : 'linear',
+    smoothMs: Math.max(0, finite(raw.smoothMs, 0)),
+    enabled: raw.enabled !== false,
+  }
+}
+
+// Storage, scene files and links all go through here
+export function parseModulationState(raw: unknown): ModulationState {
+  // stored as a plain list of modulations before the rack existed
+  const mods: unknown[] = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.mods) ? raw.mods : []
+  const modulators: unknown[] = isRecord(raw) && Array.isArray(raw.modulators) ? raw.modulators : []
+  return {
+    mods: mods.map(parseModulation).filter((m): m is Modulation => m !== null),
+    modulators: modulators.map(parseModulator).filter((d): d is ModulatorDef => d !== null),
+  }
+}
+
+export class ModulationMatrix {
+  private mods: Modulation[] = []
+  private byLayer = new Map<string, LayerMods>()
+  private level = new Map<string, number>()                // levels carried across re-indexing
+  private live = new Map<string, Record<string, number>>() // last modulated values per layer
+  private counter = 0
+  private listeners = new Set<() => void>()
+  // the extractor's named bands; the defaults until the host reports its own (setBands)
+  private bands: ModSource[] = DEFAULT_BANDS.map(b => bandSource(b.name))
+  readonly rack = createModulatorRack()
+
+  constructor() {
+    const stored = this.load()
+    this.mods = stored.mods
+    this.rack.setDefs(stored.modulators)
+    this.index()
+  }
+
+  all() { return this.mods }
+  modulators() { return this.rack.defs() }
+
+  // Called after every edit (the matrix isn't reactive; UIs re-read on change). Returns an unsubscribe.
+  onChange(listener: () => void) {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  // The band names of the extractor that feeds apply()
+  setBands(names: string[]) {
+    if (names.length === this.bands.length && names.every((name, i) => this.bands[i].id === `bandMap.${name}`)) return
+    this.bands = names.map(bandSource)
+    this.index()
+    for (const listener of this.listeners) listener()
+  }
+
+  // Features sources and bands, then the rack's modulators
+  sources(): ModSource[] {
+    const rack = this.rack
+    return [
+      ...MOD_SOURCES,
+      ...this.bands,
+      ...rack.defs().map(d => ({ id: MODULATOR_PREFIX + d.id, label: `${MODULATOR_LABELS[d.kind]}: ${d.name}`, lo: 0, hi: 1, read: () => rack.value(d.id) })),
+    ]
+  }
+
+  source(id: string): ModSource | undefined {
+    if (!id.startsWith(MODULATOR_PREFIX)) return MOD_SOURCES.find(s => s.id === id) ?? this.bands.find(s => s.id === id)
+    return this.sources().find(s => s.id === id)
+  }
+  forTarget(layerId: string, key: string) { return this.mods.filter(m => m.layerId === layerId && m.key === key) }
+  // last applied value of each modulated slider on a layer (for indicators)
+  liveValues(layerId: string): Readonly<Record<string, number>> { return this.live.get(layerId) ?? {} }
+
+  add(layerId: string, key: string, source = MOD_SOURCES[0].id): Modulation {
+    const src = this.source(source) ?? MOD_SOURCES[0]
+    const mod: Modulation = {
+      id: `m${Date.now().toString(36)}${++this.counter}`,
+      source: src.id, layerId, key,
+      depth: 0.5, lo: src.lo, hi: src.hi, curve: 'linear', smoothMs: 80, enabled: true,
+    }
+    this.mods = [...this.mods, mod]
+    this.changed()
+    return mod
+  }
+
+  update(id: string, patch: ModulationPatch) {
+    const mod = this.mods.find(m => m.id === id)
+    if (!mod) return
+    if (patch.source && patch.source !== mod.source) {
+      // a new source starts from its own range
+      const src = this.source(patch.source)
+      if (src) { mod.lo = src.lo; mod.hi = src.hi }
+    }
+    Object.assign(mod, patch)
+    this.changed()
+  }
+
+  remove(id: string) {
+    this.mods = this.mods.filter(m => m.id !== id)
+    this.level.delete(id)
+    this.changed()
+  }
+
+  addModulator(kind: ModulatorKind): ModulatorDef {
+    const n = this.rack.defs().filter(d => d.kind === kind).length + 1
+    const def = defaultModulator(kind, `o${Date.now().toString(36)}${++this.counter}`, `${MODULATOR_LABELS[kind]} ${n}`)
+    this.rack.setDefs([...this.rack.defs(), def])
+    this.changed()
+    return def
+  }
+
+  updateModulator(id: string, patch: Partial<ModulatorDef>) {
+    this.rack.setDefs(this.rack.defs().map(d => d.id === id ? { ...d, ...patch, id, kind: d.kind } as ModulatorDef : d))
+    this.changed()
+  }
+
+  // Removes the modulator and every modulation it drives
+  removeModulator(id: string) {
+    this.rack.setDefs(this.rack.defs().filter(d => d.id !== id))
+    this.mods = this.mods.filter(m => m.source !== MODULATOR_PREFIX + id)
+    this.changed()
+  }
+
+  exportState(): ModulationState {
+    return structuredClone({ mods: this.mods, modulators: this.rack.defs() })
+  }
+
+  // Replace every modulation and modulator (a scene being loaded); invalid entries are dropped
+  importState(state: unknown) {
+    const next = parseModulationState(state)
+    this.mods = next.mods
+    this.byLayer.clear() // nothing carries over into the new modulations
+    this.level.clear()
+    this.rack.setDefs(next.modulators)
+    this.changed()
+  }
+
+  // Advance the rack's modulators; once per rendered frame, before apply()
+  tick(f: Features) {
+    this.rack.tick(f)
+  }
+
+  // Write the modulated values into layer.state for this frame; restore() puts the base back.
+  // Runs on every rendered frame, so it works in the layer's scratch and allocates nothing
+  apply(layer: Layer, f: Features) {
+    const lm = this.byLayer.get(layer.id)
+    if (!lm) return
+    if (lm.layer !== layer) this.resolve(lm, layer)
+    const { bindings, targets, offsets, base, live } = lm
+    offsets.fill(0)
+    for (let i = 0; i < bindings.length; i++) {
+      const b = bindings[i], m = b.mod
+      const span = m.hi - m.lo
+      const x = shape(Math.max(0, Math.min(1, span !== 0 ? (b.src.read(f) - m.lo) / span : 0)), m.curve)
+      const a = m.smoothMs > 0 ? Math.exp(-f.dt / m.smoothMs) : 0
+      b.level = b.level < 0 ? x : a * b.level + (1 - a) * x
+      offsets[b.target] += m.depth * b.level * (b.ctrl.max - b.ctrl.min)
+    }
+    for (let i = 0; i < targets.length; i++) {
+      const ctrl = targets[i]
+      const v0 = base[i] = layer.state[ctrl.key] as number
+      const v = Math.max(ctrl.min, Math.min(ctrl.max, v0 + offsets[i]))
+      layer.state[ctrl.key] = live[ctrl.key] = ctrl.step > 0 ? ctrl.min + Math.round((v - ctrl.min) / ctrl.step) * ctrl.step : v
+    }
+    lm.applied = true
+  }
+
+  restore(layer: Layer) {
+    const lm = this.byLayer.get(layer.id)
+    if (!lm?.applied) return
+    for (let i = 0; i < lm.targets.length; i++) layer.state[lm.targets[i].key] = lm.base[i]
+    lm.applied = false
+  }
+
+  // Find each modulation's slider and source once; unknown ones are skipped
+  private resolve(lm: LayerMods, layer: Layer) {
+    lm.bindings = []
+    lm.targets = []
+    for (const mod of lm.mods) {
+      const ctrl = layer.controls.find(c => c.key === mod.key && c.kind === 'slider') as Slider | undefined
+      const src = this.source(mod.source)
+      if (!ctrl || !src) continue
+      let target = lm.targets.indexOf(ctrl)
+      if (target < 0) target = lm.targets.push(ctrl) - 1
+      lm.bindings.push({ mod, src, ctrl, target, level: this.level.get(mod.id) ?? -1 })
+    }
+    lm.offsets = new Float64Array(lm.targets.length)
+    lm.base = new Float64Array(lm.targets.length)
+    lm.layer = layer
+  }
+
+  private index() {
+    // smoothing carries over an edit
+    for (const lm of this.byLayer.values()) {
+      for (const b of lm.bindings) if (b.level >= 0 && this.mods.includes(b.mod)) this.level.set(b.mod.id, b.level)
+    }
+    this.byLayer.clear()
+    for (const m of this.mods) {
+      if (!m.enabled) continue
+      const lm = this.byLayer.get(m.layerId)
+      if (lm) { lm.mods.push(m); continue }
+      let live = this.live.get(m.layerId)
+      if (!live) this.live.set(m.layerId, live = {})
+      this.byLayer.set(m.layerId, {
+        mods: [m], layer: null, bindings: [], targets: [],
+        offsets: new Float64Array(0), base: new Float64Array(0), applied: false, live,
+      })
+    }
+    // drop indicators of sliders that are no longer modulated
+    for (const [layerId, live] of this.live) {
+      for (const key of Object.keys(live)) {
+        if (!this.byLayer.get(layerId)?.mods.some(m => m.key === key)) delete live[key]
+      }
+    }
+  }
+
+  private changed() {
+    this.index()
+    for (const listener of this.listeners) listener()
+    try {
+      localStorage.setItem(MOD_STORAGE_KEY, JSON.stringify({ mods: this.mods, modulators: this.rack.defs() } satisfies ModulationState))
+    } catch {}
+  }
+
+  private load(): ModulationState {
+    try {
+      return parseModulationState(JSON.parse(localStorage.getItem(MOD_STORAGE_KEY) || 'null'))
+    } catch {
+      return { mods: [], modulators: [] }
+    }
+  }
+}
+
+export const modulation = new ModulationMatrix()
@@ -0,0 +1,205 @@
+// Time-based modulators: LFOs, ADSR envelopes and step sequencers, each a 0..1 signal that the
+// modulation matrix (layers.ts) can route to layer sliders like any Features value.
+// The rack is ticked once per rendered frame with the frame's Features, before the matrix is
+// applied. Tempo-synced modulators follow the beat tracker (f.beat + f.beatPhase), so they
+// lock to the music once a tempo is found; until then they run at FALLBACK_BPM on the frame
+// clock. Envelopes fire on the frame's pulses (onsets, beats, bars). Random LFOs draw from a
+// seeded Rng, so a replayed Features stream modulates identically.
+
+import type { Features } from './features';
+import { createRng, seedFrom, type Rng } from './random';
+
+export type LfoShape = 'sine' | 'triangle' | 'saw' | 'square' | 'random';
+export type EnvelopeTrigger = 'onset' | 'low' | 'mid' | 'high' | 'beat' | 'bar';
+
+type ModulatorBase = { id: string; name: string };
+
+export type LfoDef = ModulatorBase & {
+  kind: 'lfo';
+  shape: LfoShape;
+  sync: boolean;     // tempo-synced (beats) or free (rateHz)
+  rateHz: number;    // free-running cycles per second
+  beats: number;     // synced cycle length in beats (0.25 = sixteenth .. 16 = four bars)
+  phase: number;     // 0..1 offset into the cycle
+};
+
+export type EnvelopeDef = ModulatorBase & {
+  kind: 'adsr';
+  trigger: EnvelopeTrigger;
+  attackMs: number;
+  decayMs: number;
+  sustain: number;   // 0..1 level held after the decay
+  holdMs: number;    // how long a trigger holds the gate open before the release
+  releaseMs: number;
+};
+
+export type StepsDef = ModulatorBase & {
+  kind: 'steps';
+  steps: number[];   // 8 or 16 levels, 0..1
+  stepBeats: number; // beats per step (0.25 = sixteenths)
+  glide: number;     // 0..1 of each step spent sliding from the previous level
+};
+
+export type ModulatorDef = LfoDef | EnvelopeDef | StepsDef;
+export type ModulatorKind = ModulatorDef['kind'];
+
+const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'saw', 'square', 'random'];
+const ENVELOPE_TRIGGERS: EnvelopeTrigger[] = ['onset', 'low', 'mid', 'high', 'beat', 'bar'];
+
+// Until the beat tracker has a tempo, synced modulators count beats at this rate
+const FALLBACK_BPM = 120;
+const RNG_SEED = 0x10f0;
+
+// A new modulator of the given kind with sensible settings
+export function defaultModulator(kind: ModulatorKind, id: string, name: string): ModulatorDef {
+  switch (kind) {
+    case 'lfo': return { kind, id, name, shape: 'sine', sync: true, rateHz: 0.5, beats: 4, phase: 0 };
+    case 'adsr': return { kind, id, name, trigger: 'low', attackMs: 10, decayMs: 200, sustain: 0.3, holdMs: 60, releaseMs: 300 };
+    case 'steps': return { kind, id, name, steps: [1, 0, 0.5, 0, 1, 0, 0.75, 0.25], stepBeats: 0.5, glide: 0 };
+  }
+}
+
+// A modulator from untrusted JSON (storage, scene files, links): fields of the wrong type fall
+// back to the defaults, anything without an id or a known kind is rejected
+export function parseModulator(raw: unknown): ModulatorDef | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string' || (r.kind !== 'lfo' && r.kind !== 'adsr' && r.kind !== 'steps')) return null;
+  const out = defaultModulator(r.kind, r.id, typeof r.name === 'string' ? r.name : r.id) as Record<string, unknown>;
+  for (const key of Object.keys(out)) {
+    const v = r[key], d = out[key];
+    if (Array.isArray(d)) {
+      if (Array.isArray(v) && v.length && v.every(x => typeof x === 'number' && isFinite(x))) out[key] = v.map(x => Math.max(0, Math.min(1, x)));
+    } else if (key === 'shape' || key === 'trigger') {
+      if ((key === 'shape' ? LFO_SHAPES : ENVELOPE_TRIGGERS).includes(v as never)) out[key] = v;
+    } else if (typeof v === typeof d && (typeof v !== 'number' || isFinite(v))) {
+      out[key] = v;
+    }
+  }
+  return out as ModulatorDef;
+}
+
+// Per-modulator running state
+type Voice = {
+  rng: Rng;
+  cycle: number;    // random LFO: index of the cycle the held value belongs to
+  held: number;     // random LFO: sample-and-hold value
+  level: number;    // envelope output
+  stage: 0 | 1 | 2 | 3 | 4; // idle, attack, decay, sustain, release
+  gateMs: number;   // envelope: time left with the gate open
+};
+
+function lfoShape(shape: LfoShape, x: number) {
+  switch (shape) {
+    case 'sine': return 0.5 - 0.5 * Math.cos(2 * Math.PI * x); // starts at 0 like the others
+    case 'triangle': return x < 0.5 ? 2 * x : 2 - 2 * x;
+    case 'saw': return x;
+    case 'square': return x < 0.5 ? 1 : 0;
+    default: return 0;
+  }
+}
+
+function triggered(f: Features, trigger: EnvelopeTrigger) {
+  switch (trigger) {
+    case 'onset': return f.onset;
+    case 'beat': return f.isBeat;
+    case 'bar': return f.isDownbeat;
+    default: return f.onsets[trigger].hit;
+  }
+}
+
+export function createModulatorRack(initial: ModulatorDef[] = []) {
+  let defs: ModulatorDef[] = [];
+  const voices = new Map<string, Voice>();
+  const values = new Map<string, number>();
+  const s = { freeBeats: 0, freeMs: 0 };
+
+  function voice(id: string): Voice {
+    let v = voices.get(id);
+    if (!v) {
+      // seeded per modulator: random LFOs differ from each other but replay the same
+      v = { rng: createRng(seedFrom(id, RNG_SEED)), cycle: -1, held: 0, level: 0, stage: 0, gateMs: 0 };
+      voices.set(id, v);
+    }
+    return v;
+  }
+
+  function lfo(d: LfoDef, v: Voice, beats: number) {
+    const cycles = (d.sync ? beats / Math.max(1e-3, d.beats) : s.freeMs / 1000 * d.rateHz) + d.phase;
+    const cycle = Math.floor(cycles);
+    if (d.shape !== 'random') return lfoShape(d.shape, cycles - cycle);
+    if (cycle !== v.cycle) { v.cycle = cycle; v.held = v.rng(); }
+    return v.held;
+  }
+
+  function envelope(d: EnvelopeDef, v: Voice, f: Features) {
+    const dt = f.dt;
+    if (triggered(f, d.trigger)) { v.stage = 1; v.gateMs = d.holdMs; }
+    else if (v.stage !== 0 && v.stage !== 4) {
+      v.gateMs -= dt;
+      if (v.gateMs <= 0) v.stage = 4;
+    }
+    switch (v.stage) {
+      case 1:
+        v.level += dt / Math.max(1, d.attackMs);
+        if (v.level >= 1) { v.level = 1; v.stage = 2; }
+        break;
+      case 2:
+        v.level -= (1 - d.sustain) * dt / Math.max(1, d.decayMs);
+        if (v.level <= d.sustain) { v.level = d.sustain; v.stage = 3; }
+        break;
+      case 3:
+        v.level = d.sustain;
+        break;
+      case 4:
+        v.level -= dt / Math.max(1, d.releaseMs);
+        if (v.level <= 0) { v.level = 0; v.stage = 0; }
+        break;
+    }
+    return v.level;
+  }
+
+  function steps(d: StepsDef, beats: number) {
+    const n = d.steps.length;
+    if (!n) return 0;
+    const pos = beats / Math.max(1e-3, d.stepBeats);
+    const i = Math.floor(pos);
+    const frac = pos - i;
+    const cur = d.steps[((i % n) + n) % n];
+    if (d.glide <= 0 || frac >= d.glide) return cur;
+    const prev = d.steps[(((i - 1) % n) + n) % n];
+    return prev + (cur - prev) * (frac / d.glide);
+  }
+
+  // Advance every modulator to this frame
+  function tick(f: Features) {
+    s.freeMs += f.dt;
+    // beat position: the tracker's once it has a tempo, else counted at FALLBACK_BPM
+    s.freeBeats += f.dt * FALLBACK_BPM / 60000;
+    const beats = f.tempo.bpm > 0 ? f.beat + f.beatPhase : s.freeBeats;
+    for (const d of defs) {
+      const v = voice(d.id);
+      const x = d.kind === 'lfo' ? lfo(d, v, beats) : d.kind === 'adsr' ? envelope(d, v, f) : steps(d, beats);
+      values.set(d.id, Math.max(0, Math.min(1, x)));
+    }
+  }
+
+  // Replace the definitions; running state of modulators that remain is kept
+  function setDefs(next: ModulatorDef[]) {
+    defs = next;
+    for (const id of [...voices.keys()]) {
+      if (!next.some(d => d.id === id)) { voices.delete(id); values.delete(id); }
+    }
+  }
+
+  setDefs(initial);
+
+  return {
+    tick,
+    setDefs,
+    defs: () => defs,
+    value: (id: string) => values.get(id) ?? 0,
+  };
+}
+
+export type ModulatorRack = ReturnType<typeof createModulatorRack>;
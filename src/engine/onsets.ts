@@ -0,0 +1,76 @@
+// Per-band onset detection on spectral flux.
+// Each band keeps an exponentially weighted mean/variance of its flux; a hit fires when
+// the flux rises above mean + k·std (plus a small floor) and the band's refractory
+// interval has passed. Thresholds therefore adapt to each band's own activity.
+
+import type { FrameTime } from './clock';
+
+export type BandOnset = {
+  hit: boolean;       // true on the frame an onset is detected
+  strength: number;   // 0..1, how far the flux overshot the threshold (held while decaying)
+  lastHitMs: number;  // Features.t of the last hit (-Infinity before the first)
+};
+
+export type BandOnsets = { low: BandOnset; mid: BandOnset; high: BandOnset };
+
+// flux per band for the current frame
+export type BandFlux = { low: number; mid: number; high: number };
+
+export type BandOnsetOptions = {
+  k: number;              // threshold in standard deviations
+  minIntervalMs: number;  // refractory period between hits
+  windowMs: number;       // time constant of the adaptive mean/variance
+  floor: number;          // absolute minimum flux for a hit
+};
+
+export function createBandOnsetDetector(opts: { low: BandOnsetOptions; mid: BandOnsetOptions; high: BandOnsetOptions }) {
+  const cfgs = [opts.low, opts.mid, opts.high];
+  // per-band state, indexed low/mid/high
+  const mean = new Float64Array(3);
+  const variance = new Float64Array(3);
+  const prevFlux = new Float64Array(3);
+  const strength = new Float64Array(3);
+  const lastHit = new Float64Array(3).fill(-Infinity);
+  const flux3 = new Float64Array(3);
+
+  const out: BandOnsets = {
+    low: { hit: false, strength: 0, lastHitMs: -Infinity },
+    mid: { hit: false, strength: 0, lastHitMs: -Infinity },
+    high: { hit: false, strength: 0, lastHitMs: -Infinity },
+  };
+  const outs = [out.low, out.mid, out.high];
+
+  return function detect(time: FrameTime, flux: BandFlux): BandOnsets {
+    const t = time.t, dt = time.dt;
+    flux3[0] = flux.low; flux3[1] = flux.mid; flux3[2] = flux.high;
+
+    for (let b = 0; b < 3; b++) {
+      const o = cfgs[b];
+      const x = flux3[b];
+      const threshold = mean[b] + o.k * Math.sqrt(variance[b]) + o.floor;
+      // rising edge above threshold, outside the refractory window
+      const hit = x > threshold && x >= prevFlux[b] && (t - lastHit[b]) >= o.minIntervalMs;
+      prevFlux[b] = x;
+
+      if (hit) {
+        lastHit[b] = t;
+        const over = (x - threshold) / Math.max(1e-4, threshold);
+        strength[b] = Math.max(strength[b], over > 1 ? 1 : over);
+      } else {
+        // let the reported strength fade so layers can use it as an envelope
+        strength[b] *= Math.exp(-dt / 150);
+      }
+
+      // update statistics after the decision so a hit doesn't raise its own threshold
+      const a = 1 - Math.exp(-dt / Math.max(1, o.windowMs));
+      const d = x - mean[b];
+      mean[b] += a * d;
+      variance[b] = (1 - a) * (variance[b] + a * d * d);
+
+      outs[b].hit = hit;
+      outs[b].strength = strength[b];
+      outs[b].lastHitMs = lastHit[b];
+    }
+    return out;
+  };
+}
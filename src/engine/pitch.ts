@@ -0,0 +1,112 @@
+// Monophonic pitch (fundamental frequency) tracking with YIN.
+// Runs on the newest time-domain samples (decimated by 2, which keeps the lags needed down to
+// minHz affordable at 60 fps). The cumulative mean normalised difference is computed lag by lag
+// and stops at the first dip below the threshold once it has passed its minimum, so clearly
+// pitched frames cost far less than noisy ones. The dip is refined by parabolic interpolation.
+// Suited to a voice or lead line over a quiet backing; chords and drums come out unvoiced.
+
+import type { FrameTime } from './clock';
+
+export type PitchState = {
+  hz: number;       // fundamental in Hz, 0 when unvoiced
+  midi: number;     // nearest MIDI note number (69 = A4), -1 when unvoiced
+  cents: number;    // offset from that note, -50..50
+  clarity: number;  // 0..1 periodicity of the frame (1 − the YIN dip); below 1 − threshold is unvoiced
+};
+
+export type PitchOptions = Partial<{
+  minHz: number;      // 70 lowest fundamental searched
+  maxHz: number;      // 1000 highest fundamental searched
+  windowSize: number; // 1024 samples (before decimation) integrated per lag
+  threshold: number;  // 0.15 YIN dip threshold
+  holdMs: number;     // 120 keep the last note this long through unvoiced frames
+}>;
+
+const DEFAULTS: Required<PitchOptions> = {
+  minHz: 70,
+  maxHz: 1000,
+  windowSize: 1024,
+  threshold: 0.15,
+  holdMs: 120,
+};
+
+const DECIMATE = 2;
+
+export function createPitchTracker(opts: PitchOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const W = Math.floor(cfg.windowSize / DECIMATE);
+
+  // sized on first use / when the sample rate changes
+  let x = new Float32Array(0); // decimated samples, W + maxLag
+  let d = new Float32Array(0); // cumulative mean normalised difference per lag
+
+  const state: PitchState = { hz: 0, midi: -1, cents: 0, clarity: 0 };
+  const s = { rate: 0, minLag: 0, maxLag: 0, sinceVoicedMs: Infinity };
+
+  function setRate(sampleRate: number) {
+    s.rate = sampleRate;
+    const rate = sampleRate / DECIMATE;
+    s.minLag = Math.max(2, Math.floor(rate / cfg.maxHz));
+    s.maxLag = Math.ceil(rate / cfg.minHz);
+    x = new Float32Array(W + s.maxLag + 2);
+    d = new Float32Array(s.maxLag + 2);
+  }
+
+  // set state.clarity first rather than passing it in (see clock.ts)
+  function unvoiced(time: FrameTime) {
+    s.sinceVoicedMs += time.dt;
+    if (s.sinceVoicedMs > cfg.holdMs) { state.hz = 0; state.midi = -1; state.cents = 0; }
+    return state;
+  }
+
+  // waveform: newest samples last, -1..1 (the extractor's raw waveform input)
+  return function track(waveform: Float32Array | undefined, sampleRate: number, time: FrameTime): PitchState {
+    if (sampleRate !== s.rate) setRate(sampleRate);
+    const n = x.length;
+    if (!waveform || waveform.length < n * DECIMATE) {
+      state.clarity = 0;
+      return unvoiced(time);
+    }
+
+    // newest n·DECIMATE samples, pairwise averaged
+    const off = waveform.length - n * DECIMATE;
+    for (let i = 0; i < n; i++) x[i] = 0.5 * (waveform[off + 2 * i] + waveform[off + 2 * i + 1]);
+
+    // difference function and its cumulative mean normalisation, lag by lag
+    const maxLag = s.maxLag;
+    let running = 0;
+    let best = -1;
+    d[0] = 1;
+    for (let tau = 1; tau <= maxLag + 1; tau++) {
+      let sum = 0;
+      for (let i = 0; i < W; i++) { const e = x[i] - x[i + tau]; sum += e * e; }
+      running += sum;
+      d[tau] = running > 0 ? sum * tau / running : 1;
+      if (tau <= s.minLag) continue;
+      // first dip under the threshold: stop once d turns back up
+      if (best < 0 && d[tau - 1] < cfg.threshold && d[tau] >= d[tau - 1]) { best = tau - 1; break; }
+    }
+    if (best < 0) {
+      // nothing under the threshold: report the global minimum's clarity, unvoiced
+      let m = 1;
+      for (let tau = s.minLag; tau <= maxLag; tau++) if (d[tau] < m) m = d[tau];
+      state.clarity = 1 - m;
+      return unvoiced(time);
+    }
+
+    // parabolic interpolation around the dip
+    const a = d[best - 1], b = d[best], c = d[best + 1];
+    const denom = a - 2 * b + c;
+    const lag = Math.abs(denom) > 1e-12 ? best + 0.5 * (a - c) / denom : best;
+    const hz = sampleRate / DECIMATE / lag;
+    const midiF = 69 + 12 * Math.log2(hz / 440);
+    const midi = Math.round(midiF);
+
+    state.hz = hz;
+    state.midi = midi;
+    state.cents = (midiF - midi) * 100;
+    state.clarity = Math.max(0, Math.min(1, 1 - b));
+    s.sinceVoicedMs = 0;
+    return state;
+  };
+}
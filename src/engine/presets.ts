@@ -0,0 +1,182 @@
+// Named presets: one layer's control values, or a whole scene (the selected layers in order,
+// each with its control values, plus the modulation matrix and its modulators).
+// Both are shared as versioned JSON files: { format, version, ...preset }. Anything read back
+// (files, storage) is untrusted and goes through the parse functions here: values are checked
+// against the layer's controls (sliders clamped to their range, unknown select options and
+// wrong types fall back to the default), and files from a newer version are refused.
+// Scene links are the compact form for URLs: the layer selection plus only the values that
+// differ from the defaults, as base64url JSON in the hash (#scene=…); no modulation.
+
+import { parseModulationState, type Control, type ModulationState } from './layers';
+
+export const LAYER_PRESET_FORMAT = 'reveri.layer-preset';
+export const SCENE_FORMAT = 'reveri.scene';
+export const PRESET_VERSION = 1;
+export const SCENE_LINK_PARAM = 'scene';
+const SCENE_LINK_VERSION = 1;
+const SCENE_LINK_MAX_LAYERS = 16;
+
+export type LayerState = Record<string, number | boolean | string>;
+
+export type LayerPreset = {
+  id: string;
+  name: string;
+  layerId: string;   // the layer the values belong to
+  state: LayerState;
+};
+
+export type ScenePreset = {
+  id: string;
+  name: string;
+  layers: { id: string; state: LayerState }[]; // selected layers, in order
+  modulation: ModulationState;
+};
+
+export type PresetFile =
+  | { kind: 'layer'; preset: LayerPreset }
+  | { kind: 'scene'; preset: ScenePreset };
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+// Every control at its default
+export function controlDefaults(controls: Control[]): LayerState {
+  const out: LayerState = {};
+  for (const c of controls) out[c.key] = c.default;
+  return out;
+}
+
+// A complete, valid state for these controls from untrusted values
+export function validateState(controls: Control[], raw: unknown): LayerState {
+  const out = controlDefaults(controls);
+  if (!isRecord(raw)) return out;
+  for (const c of controls) {
+    const v = raw[c.key];
+    if (c.kind === 'slider') {
+      if (typeof v === 'number' && isFinite(v)) out[c.key] = Math.max(c.min, Math.min(c.max, v));
+    } else if (c.kind === 'toggle') {
+      if (typeof v === 'boolean') out[c.key] = v;
+    } else if (c.options.some(o => o.value === v)) {
+      out[c.key] = v as string;
+    }
+  }
+  return out;
+}
+
+// Plain values only; layers are validated against their controls when the preset is applied
+function parseValues(raw: unknown): LayerState {
+  const out: LayerState = {};
+  if (!isRecord(raw)) return out;
+  for (const [key, v] of Object.entries(raw)) {
+    if ((typeof v === 'number' && isFinite(v)) || typeof v === 'boolean' || typeof v === 'string') out[key] = v;
+  }
+  return out;
+}
+
+function parseName(raw: unknown, fallback: string) {
+  return typeof raw === 'string' && raw.trim() ? raw.trim() : fallback;
+}
+
+export function parseLayerPreset(raw: unknown, id: string): LayerPreset | null {
+  if (!isRecord(raw) || typeof raw.layerId !== 'string') return null;
+  return { id, name: parseName(raw.name, 'Preset'), layerId: raw.layerId, state: parseValues(raw.state) };
+}
+
+export function parseScenePreset(raw: unknown, id: string): ScenePreset | null {
+  if (!isRecord(raw) || !Array.isArray(raw.layers)) return null;
+  const layers = raw.layers
+    .filter((l): l is Record<string, unknown> => isRecord(l) && typeof l.id === 'string')
+    .map(l => ({ id: l.id as string, state: parseValues(l.state) }))
+    .filter((l, i, all) => all.findIndex(o => o.id === l.id) === i);
+  if (!layers.length) return null;
+  return { id, name: parseName(raw.name, 'Scene'), layers, modulation: parseModulationState(raw.modulation) };
+}
+
+// File contents for sharing; ids are local and left out
+export function layerPresetFile(preset: LayerPreset) {
+  const { name, layerId, state } = preset;
+  return { format: LAYER_PRESET_FORMAT, version: PRESET_VERSION, name, layerId, state };
+}
+
+export function sceneFile(preset: ScenePreset) {
+  const { name, layers, modulation } = preset;
+  return { format: SCENE_FORMAT, version: PRESET_VERSION, name, layers, modulation };
+}
+
+// Either kind of preset file; throws with a message fit for the user
+export function parsePresetFile(text: string, id: string): PresetFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isRecord(raw) || (raw.format !== LAYER_PRESET_FORMAT && raw.format !== SCENE_FORMAT)) {
+    throw new Error('Not a Reveri preset or scene file');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) throw new Error('Preset file has no version');
+  if (raw.version > PRESET_VERSION) throw new Error(`Preset file is version ${raw.version}; this build reads up to ${PRESET_VERSION}`);
+  if (raw.format === LAYER_PRESET_FORMAT) {
+    const preset = parseLayerPreset(raw, id);
+    if (!preset) throw new Error('Layer preset has no layer id');
+    return { kind: 'layer', preset };
+  }
+  const preset = parseScenePreset(raw, id);
+  if (!preset) throw new Error('Scene has no layers');
+  return { kind: 'scene', preset };
+}
+
+export type SceneLink = {
+  selection: string[];                  // the layer selector's values, in order
+  states: Record<string, LayerState>;   // per layer id; not yet validated against its controls
+};
+
+function toBase64Url(text: string) {
+  let bin = '';
+  for (const b of new TextEncoder().encode(text)) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(b64: string) {
+  const bin = atob(b64.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(bin, c => c.charCodeAt(0)));
+}
+
+// The values that differ from the controls' defaults
+export function changedValues(controls: Control[], state: Record<string, unknown>): LayerState {
+  const valid = validateState(controls, state);
+  const out: LayerState = {};
+  for (const c of controls) if (valid[c.key] !== c.default) out[c.key] = valid[c.key];
+  return out;
+}
+
+// URL hash for a selection and its layers' current values
+export function encodeSceneLink(selection: string[], layers: { id: string; controls: Control[]; state: Record<string, unknown> }[]) {
+  const s: Record<string, LayerState> = {};
+  for (const layer of layers) {
+    const changed = changedValues(layer.controls, layer.state);
+    if (Object.keys(changed).length) s[layer.id] = changed;
+  }
+  return `#${SCENE_LINK_PARAM}=${toBase64Url(JSON.stringify({ v: SCENE_LINK_VERSION, l: selection, s }))}`;
+}
+
+// A location hash back into a link; null when it holds none or it can't be read
+export function decodeSceneLink(hash: string): SceneLink | null {
+  const param = new URLSearchParams(hash.replace(/^#/, '')).get(SCENE_LINK_PARAM);
+  if (!param) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(param));
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || raw.v !== SCENE_LINK_VERSION || !Array.isArray(raw.l)) return null;
+  const selection = raw.l
+    .filter((name): name is string => typeof name === 'string')
+    .filter((name, i, all) => all.indexOf(name) === i)
+    .slice(0, SCENE_LINK_MAX_LAYERS);
+  const states: Record<string, LayerState> = {};
+  if (isRecord(raw.s)) for (const [id, state] of Object.entries(raw.s)) states[id] = parseValues(state);
+  return { selection, states };
+}
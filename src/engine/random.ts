@@ -0,0 +1,23 @@
+// Seeded pseudo-random numbers for layers (mulberry32).
+// Math.random() would make two runs over the same Features diverge; a layer that owns one of
+// these, seeded in init(), draws the same sequence every time it is replayed.
+
+export type Rng = () => number; // uniform in [0, 1)
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return function next() {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A seed derived from a string (FNV-1a mixed into `seed`), for one stream per named thing
+export function seedFrom(text: string, seed = 0): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+}
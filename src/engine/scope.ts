@@ -0,0 +1,122 @@
+// Trigger-stabilised waveform window for oscilloscope-style layers.
+// Like a scope's edge trigger: the output window starts at a rising zero crossing
+// (armed only after the signal dips below -hysteresis, so noise near zero can't retrigger).
+// When several crossings qualify, the one whose window best matches the previous frame wins,
+// which keeps complex (multi-crossing) material from hopping between alignments.
+// The crossing is interpolated to a fractional sample so the picture doesn't jitter by ±1 sample.
+
+export type ScopeFrame = {
+  waveform: Float32Array;   // mono window, -1..1
+  channels: Float32Array[]; // per-channel windows on the same trigger (empty when mono)
+  locked: boolean;          // false when no trigger was found (free-running from the start)
+};
+
+export type ScopeOptions = Partial<{
+  length: number;      // 1024 output samples
+  hysteresis: number;  // 0.05 of the frame's peak level
+  candidates: number;  // 8 crossings compared against the previous frame
+}>;
+
+const DEFAULTS: Required<ScopeOptions> = {
+  length: 1024,
+  hysteresis: 0.05,
+  candidates: 8,
+};
+
+// linear-interpolated read of src starting at a fractional offset
+function readWindow(src: Float32Array, start: number, out: Float32Array) {
+  const n = src.length;
+  for (let i = 0; i < out.length; i++) {
+    const p = start + i;
+    const i0 = Math.floor(p);
+    if (i0 >= n - 1) { out[i] = src[n - 1] ?? 0; continue; }
+    const frac = p - i0;
+    out[i] = src[i0] * (1 - frac) + src[i0 + 1] * frac;
+  }
+}
+
+export function createScopeTrigger(opts: ScopeOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const L = cfg.length;
+  const starts = new Float32Array(cfg.candidates);
+  let mono = new Float32Array(0);       // summed input when only channels are given
+  const prev = new Float32Array(L);     // previous output window (match target)
+  let hasPrev = false;
+
+  const frame: ScopeFrame = { waveform: new Float32Array(L), channels: [], locked: false };
+
+  function findStarts(x: Float32Array, last: number) {
+    let peak = 0;
+    for (let i = 0; i < x.length; i++) { const a = Math.abs(x[i]); if (a > peak) peak = a; }
+    const hyst = Math.max(1e-4, peak * cfg.hysteresis);
+    let armed = false, count = 0;
+    for (let i = 1; i <= last && count < starts.length; i++) {
+      const a = x[i - 1], b = x[i];
+      if (a < -hyst) armed = true;
+      if (armed && a < 0 && b >= 0) {
+        starts[count++] = i - 1 + (b !== a ? -a / (b - a) : 0);
+        armed = false;
+      }
+    }
+    return count;
+  }
+
+  // sum of squared differences against the previous window, on a coarse stride
+  function mismatch(x: Float32Array, start: number) {
+    const base = Math.floor(start);
+    let e = 0;
+    for (let i = 0; i < L && base + i < x.length; i += 4) {
+      const d = x[base + i] - prev[i];
+      e += d * d;
+    }
+    return e;
+  }
+
+  return function align(waveform?: Float32Array, channels?: Float32Array[]): ScopeFrame {
+    const chans = channels && channels.length > 1 ? channels : [];
+    let x = waveform && waveform.length ? waveform : null;
+    if (!x && chans.length) {
+      // no mono capture: trigger on the channel sum
+      const n = chans[0].length;
+      if (mono.length !== n) mono = new Float32Array(n);
+      for (let i = 0; i < n; i++) {
+        let s = 0;
+        for (const c of chans) s += c[i] ?? 0;
+        mono[i] = s / chans.length;
+      }
+      x = mono;
+    }
+
+    if (frame.channels.length !== chans.length) {
+      frame.channels = chans.map(() => new Float32Array(L));
+    }
+    if (!x || x.length < 2) {
+      frame.waveform.fill(0);
+      for (const c of frame.channels) c.fill(0);
+      frame.locked = false;
+      return frame;
+    }
+
+    // the window must fit after the trigger; short captures just shrink the search range
+    const last = Math.max(1, x.length - L);
+    const count = findStarts(x, last);
+    let start = 0;
+    if (count > 0) {
+      start = starts[0];
+      if (hasPrev && count > 1) {
+        let best = Infinity;
+        for (let k = 0; k < count; k++) {
+          const e = mismatch(x, starts[k]);
+          if (e < best) { best = e; start = starts[k]; }
+        }
+      }
+    }
+    frame.locked = count > 0;
+
+    readWindow(x, start, frame.waveform);
+    for (let c = 0; c < chans.length; c++) readWindow(chans[c], start, frame.channels[c]);
+    prev.set(frame.waveform);
+    hasPrev = true;
+    return frame;
+  };
+}
@@ -0,0 +1,263 @@
+// Song structure: live section-change detection for the feature pipeline.
+// Every blockMs the extractor's chroma, raw MFCCs and band levels are averaged into one vector,
+// z-scored against slow running statistics and kept in a short history. Novelty is the cosine
+// distance between the mean of the last windowBlocks vectors and the windowBlocks before them;
+// a novelty peak above its running mean + k·std marks a boundary half a window back. Drops take
+// a faster path: a loudness jump across one block ends the section immediately. The label is
+// a guess from loudness alone (a jump up is a drop, a fall is a break, a steady climb a build).
+// For file playback the host replaces all of this with the offline timeline (refineSection).
+// Changes reach layers as 'section' events (see events.ts).
+
+import type { FrameTime } from './clock';
+import { sectionAt, type TrackTimeline } from './timeline';
+
+export type SectionLabel = 'steady' | 'build' | 'drop' | 'break';
+
+export type Section = {
+  id: number;          // 0 for the first section, +1 on every change (timeline: section index)
+  label: SectionLabel; // best guess; may change while the section plays (steady → build)
+  startMs: number;     // estimated start on the Features.t timeline
+  elapsedMs: number;   // time since startMs
+  changed: boolean;    // true on the frame a new section begins
+  novelty: number;     // 0..1 how different the last few seconds are from the ones before
+};
+
+// What the tracker reads from the frame being built (Features satisfies it)
+export type SectionInput = FrameTime & {
+  rmsDb: number;
+  chroma: Float32Array;
+  timbreRaw: { mfcc: Float32Array };
+  bandsRaw: { low: number; mid: number; high: number };
+};
+
+export type SectionTrackerOptions = Partial<{
+  blockMs: number;       // 500 feature averaging block
+  windowBlocks: number;  // 8 blocks compared either side of a boundary (4 s)
+  minSectionMs: number;  // 8000 minimum distance between boundaries
+  noveltyK: number;      // 1.5 std devs above the running mean novelty
+  noveltyFloor: number;  // 0.12 novelty below this is never a boundary
+  statsTauMs: number;    // 30000 time constant of the feature / novelty statistics
+  dropRiseDb: number;    // 6 loudness jump that makes a drop
+  breakFallDb: number;   // 6 loudness fall across a boundary that makes a break
+  buildRiseDb: number;   // 3 climb since the section started that makes it a build
+  silenceDb: number;     // -70 floor for the loudness averages
+  mfccCount: number;     // 13 (must match the timbre analyzer)
+}>;
+
+const DEFAULTS: Required<SectionTrackerOptions> = {
+  blockMs: 500,
+  windowBlocks: 8,
+  minSectionMs: 8000,
+  noveltyK: 1.5,
+  noveltyFloor: 0.12,
+  statsTauMs: 30000,
+  dropRiseDb: 6,
+  breakFallDb: 6,
+  buildRiseDb: 3,
+  silenceDb: -70,
+  mfccCount: 13,
+};
+
+export function emptySection(): Section {
+  return { id: 0, label: 'steady', startMs: 0, elapsedMs: 0, changed: false, novelty: 0 };
+}
+
+export function copySectionInto(dst: Section, src: Section) {
+  dst.id = src.id;
+  dst.label = src.label;
+  dst.startMs = src.startMs;
+  dst.elapsedMs = src.elapsedMs;
+  dst.changed = src.changed;
+  dst.novelty = src.novelty;
+}
+
+export function createSectionTracker(opts: SectionTrackerOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const W = Math.max(1, Math.round(cfg.windowBlocks));
+  const H = 2 * W; // history length in blocks
+  const dim = 12 + cfg.mfccCount + 3;
+
+  const section = emptySection();
+
+  // scalar state on an object (see clock.ts)
+  const s = {
+    started: false,
+    blockMs: 0,      // time accumulated into the open block
+    blockFrames: 0,
+    blockDb: 0,
+    head: 0,         // next history slot
+    filled: 0,
+    statsInit: false,
+    novPrev: 0,      // novelty one and two blocks back, for peak picking
+    novPrev2: 0,
+    novMean: 0,
+    novVar: 0,
+    settle: 0,       // blocks left before novelty counts towards its statistics again
+    startDb: 0,      // section loudness when it began (for build detection)
+    meanDb: 0,       // meanDb()'s result
+  };
+
+  const acc = new Float32Array(dim);        // open block, summed
+  const mean = new Float32Array(dim);       // running feature statistics
+  const variance = new Float32Array(dim);
+  const rows = new Float32Array(H * dim);   // z-scored, unit-length block vectors (ring)
+  const rowDb = new Float32Array(H);        // mean loudness per block (ring)
+  const before = new Float32Array(dim);
+  const after = new Float32Array(dim);
+
+  function slot(back: number) { return (s.head - back + H) % H; } // back = 1 → newest block
+
+  // into s.meanDb rather than returned: the rarely taken boundary path calls it without
+  // inlining, which would box the result (see clock.ts)
+  function meanDb(fromBack: number, toBack: number) {
+    let sum = 0;
+    for (let k = fromBack; k <= toBack; k++) sum += rowDb[slot(k)];
+    s.meanDb = sum / (toBack - fromBack + 1);
+  }
+
+  // set section.startMs and s.startDb first rather than passing them in (see clock.ts)
+  function begin(label: SectionLabel) {
+    section.id++;
+    section.label = label;
+    section.changed = true;
+    // the change must not be detected again from the same history, and the novelty it keeps
+    // producing while it passes through the windows must not raise the threshold for the next
+    s.novPrev = s.novPrev2 = 0;
+    s.settle = H;
+  }
+
+  // 1 − cosine similarity of the mean vectors of two history windows, mapped to 0..1, into
+  // section.novelty (returned, it would be boxed wherever this isn't inlined; see clock.ts)
+  function novelty() {
+    before.fill(0); after.fill(0);
+    for (let k = 1; k <= W; k++) {
+      const a = slot(k) * dim, b = slot(k + W) * dim;
+      for (let d = 0; d < dim; d++) { after[d] += rows[a + d]; before[d] += rows[b + d]; }
+    }
+    let dot = 0, na = 0, nb = 0;
+    for (let d = 0; d < dim; d++) { dot += after[d] * before[d]; na += after[d] * after[d]; nb += before[d] * before[d]; }
+    section.novelty = na < 1e-12 || nb < 1e-12 ? 0 : 0.5 * (1 - dot / Math.sqrt(na * nb));
+  }
+
+  function closeBlock(f: FrameTime) {
+    const n = Math.max(1, s.blockFrames);
+    const a = Math.exp(-cfg.blockMs / cfg.statsTauMs);
+    const row = s.head * dim;
+    let norm = 0;
+    for (let d = 0; d < dim; d++) {
+      const x = acc[d] / n;
+      if (!s.statsInit) { mean[d] = x; variance[d] = 0; }
+      const dx = x - mean[d];
+      mean[d] += (1 - a) * dx;
+      variance[d] = a * (variance[d] + (1 - a) * dx * dx);
+      const z = (x - mean[d]) / Math.sqrt(variance[d] + 1e-6);
+      rows[row + d] = z;
+      norm += z * z;
+    }
+    s.statsInit = true;
+    norm = Math.sqrt(norm);
+    for (let d = 0; d < dim; d++) rows[row + d] = norm > 1e-9 ? rows[row + d] / norm : 0;
+    rowDb[s.head] = s.blockDb / n;
+    s.head = (s.head + 1) % H;
+    if (s.filled < H) s.filled++;
+    acc.fill(0);
+    s.blockFrames = 0;
+    s.blockDb = 0;
+    s.blockMs -= cfg.blockMs;
+
+    const sinceStart = f.t - section.startMs;
+    if (s.filled < 2) return;
+
+    // fast path: a loudness jump over the previous window is a drop, now
+    const lastDb = rowDb[slot(1)];
+    meanDb(2, Math.min(s.filled, W + 1));
+    const priorDb = s.meanDb;
+    if (sinceStart >= cfg.minSectionMs && lastDb - priorDb >= cfg.dropRiseDb) {
+      section.startMs = f.t - cfg.blockMs;
+      s.startDb = lastDb;
+      begin('drop');
+      return;
+    }
+
+    if (s.filled < H) return;
+    novelty();
+    const nov = section.novelty;
+
+    // the previous block is a boundary if it is a local novelty peak above the threshold
+    const threshold = Math.max(cfg.noveltyFloor, s.novMean + cfg.noveltyK * Math.sqrt(s.novVar));
+    const peak = s.novPrev > s.novPrev2 && s.novPrev >= nov && s.novPrev > threshold;
+    // the peak compared the windows either side of a point W + 1 blocks back
+    const startMs = f.t - (W + 1) * cfg.blockMs;
+    if (peak && startMs - section.startMs >= cfg.minSectionMs) {
+      meanDb(W + 1, H);
+      const olderDb = s.meanDb;
+      meanDb(1, W);
+      const rise = s.meanDb - olderDb;
+      const label = rise >= cfg.dropRiseDb ? 'drop' : rise <= -cfg.breakFallDb ? 'break' : 'steady';
+      section.startMs = startMs;
+      s.startDb = s.meanDb;
+      begin(label);
+    } else {
+      s.novPrev2 = s.novPrev;
+      s.novPrev = nov;
+    }
+    if (s.settle > 0) {
+      s.settle--;
+    } else {
+      const b = Math.exp(-cfg.blockMs / cfg.statsTauMs);
+      const dn = nov - s.novMean;
+      s.novMean += (1 - b) * dn;
+      s.novVar = b * (s.novVar + (1 - b) * dn * dn);
+    }
+
+    // a plain section (or a breakdown) that keeps getting louder is building up to something
+    if (section.label === 'steady' || section.label === 'break') {
+      meanDb(1, Math.min(4, W));
+      if (s.meanDb - s.startDb >= cfg.buildRiseDb) section.label = 'build';
+    }
+  }
+
+  // Call once per extracted frame, after chroma and timbre; returns the tracker's own Section
+  // (overwritten in place)
+  return function track(f: SectionInput): Section {
+    if (!s.started) {
+      s.started = true;
+      section.startMs = f.t;
+      s.startDb = Math.max(cfg.silenceDb, f.rmsDb);
+    }
+    section.changed = false;
+
+    const chroma = f.chroma, mfcc = f.timbreRaw.mfcc;
+    for (let c = 0; c < 12; c++) acc[c] += chroma[c];
+    const m = Math.min(mfcc.length, cfg.mfccCount);
+    for (let c = 0; c < m; c++) acc[12 + c] += mfcc[c];
+    const o = 12 + cfg.mfccCount;
+    acc[o] += f.bandsRaw.low; acc[o + 1] += f.bandsRaw.mid; acc[o + 2] += f.bandsRaw.high;
+    s.blockDb += Math.max(cfg.silenceDb, isFinite(f.rmsDb) ? f.rmsDb : cfg.silenceDb);
+    s.blockFrames++;
+    s.blockMs += f.dt;
+    if (s.blockMs >= cfg.blockMs) closeBlock(f);
+
+    section.elapsedMs = f.t - section.startMs;
+    return section;
+  };
+}
+
+// Overwrites a frame's section with the offline timeline's at track position `position` (s).
+// The live tracker needs a few seconds of history before it can call a boundary; the timeline
+// knows them in advance, so for file playback its sections and labels are used instead.
+export function createSectionRefiner() {
+  const s = { index: -1, timeline: null as TrackTimeline | null };
+  return function refineSection(f: FrameTime & { section: Section }, tl: TrackTimeline, position: number) {
+    const i = sectionAt(tl, position);
+    const sec = f.section;
+    sec.changed = tl !== s.timeline ? false : i !== s.index;
+    s.index = i;
+    s.timeline = tl;
+    const startSec = tl.sections.length ? tl.sections[i] : 0;
+    sec.id = i;
+    sec.label = tl.sectionLabels[i] ?? 'steady';
+    sec.elapsedMs = Math.max(0, (position - startSec) * 1000);
+    sec.startMs = f.t - sec.elapsedMs;
+  };
+}
@@ -0,0 +1,177 @@
+// AnalyserNode and Tone.Meter equivalents over plain sample arrays.
+// Shared by the analysis worklet and the offline track analysis (timeline.ts), so both hand
+// the extractor the same dB spectrum and level it was tuned on with Tone's analysers.
+// The worklet can add a log-frequency spectrum with better bass resolution (multi-resolution
+// or constant-Q, see analysis.ts), which the extractor prefers for binsLog.
+
+import { blackmanWindow, createFft } from './fft';
+import { hzToFftBin, logBinToHz, type LogRange } from './bins';
+
+// Like AnalyserNode.getFloatFrequencyData: Blackman window, |X|/N, smoothed across frames
+export function createSpectrum(fftSize: number, smoothing: number) {
+  const fft = createFft(fftSize);
+  const win = blackmanWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const mag = new Float32Array(fftSize >> 1);
+
+  // frame: the newest fftSize samples, oldest first; outDb: fftSize / 2 bins
+  return function spectrum(frame: Float32Array, outDb: Float32Array) {
+    for (let i = 0; i < fftSize; i++) { re[i] = frame[i] * win[i]; im[i] = 0; }
+    fft.forward(re, im);
+    for (let k = 0; k < mag.length; k++) {
+      const m = Math.sqrt(re[k] * re[k] + im[k] * im[k]) / fftSize;
+      mag[k] = smoothing * mag[k] + (1 - smoothing) * m;
+      outDb[k] = 20 * Math.log10(mag[k]);
+    }
+  };
+}
+
+// Like Tone.Meter: RMS held against a decaying previous level. Tone decays by `smoothing`
+// once per getValue(); here that is rescaled to one hop as if polled at 60 Hz.
+export function createLevelMeter(smoothing: number, hop: number, sampleRate: number) {
+  const decay = Math.pow(smoothing, (hop / sampleRate) * 60);
+  const s = { level: 0 };
+
+  // dB level after the samples in [from, to) of src
+  return function meter(src: Float32Array, from: number, to: number) {
+    let sq = 0;
+    for (let i = from; i < to; i++) sq += src[i] * src[i];
+    const rms = to > from ? Math.sqrt(sq / (to - from)) : 0;
+    s.level = Math.max(rms, s.level * decay);
+    return 20 * Math.log10(s.level);
+  };
+}
+
+// A spectrum sampled on a log-frequency grid: bin i sits at logBinToHz(i, db.length, range).
+// What the multi-resolution and constant-Q front ends produce; the extractor resamples it
+// straight into binsLog instead of interpolating the linear FFT.
+export type LogSpectrum = { db: Float32Array; range: LogRange };
+
+// Multi-resolution: a long transform for the lows spliced onto the regular one for the highs.
+// Below splitHz the log bins come from the lowSize-point spectrum (fine frequency steps, slow),
+// above it from the caller's short spectrum (coarse, quick), crossfaded over the octave around
+// the split. Both are AnalyserNode-scaled, so a steady tone reads the same level either side.
+export function createMultiResSpectrum(lowSize: number, splitHz: number, smoothing: number, sampleRate: number, bins: number, range: LogRange) {
+  const low = createSpectrum(lowSize, smoothing);
+  const lowDb = new Float32Array(lowSize >> 1);
+  const binHz = new Float32Array(bins);
+  const lowIdx = new Float32Array(bins);
+  const highIdx = new Float32Array(bins); // filled on first use, when the short spectrum's size is known
+  const wLow = new Float32Array(bins);
+  const s = { highN: 0 };
+  for (let i = 0; i < bins; i++) {
+    const hz = binHz[i] = logBinToHz(i, bins, range);
+    lowIdx[i] = hzToFftBin(hz, lowDb.length, sampleRate);
+    const t = Math.log2(hz / splitHz) + 0.5;
+    wLow[i] = t <= 0 ? 1 : t >= 1 ? 0 : 1 - t;
+  }
+
+  // lowFrame: the newest lowSize samples, oldest first; highDb: the short spectrum (0 Hz .. Nyquist)
+  return function multiRes(lowFrame: Float32Array, highDb: Float32Array, outDb: Float32Array) {
+    low(lowFrame, lowDb);
+    const nHigh = highDb.length, nLow = lowDb.length;
+    if (nHigh !== s.highN) {
+      s.highN = nHigh;
+      for (let i = 0; i < bins; i++) highIdx[i] = hzToFftBin(binHz[i], nHigh, sampleRate);
+    }
+    for (let i = 0; i < bins; i++) {
+      const w = wLow[i];
+      let v = 0;
+      if (w > 0) {
+        const x = lowIdx[i];
+        const i0 = Math.min(nLow - 2, Math.floor(x)), frac = x - i0;
+        v += w * (lowDb[i0] * (1 - frac) + lowDb[i0 + 1] * frac);
+      }
+      if (w < 1) {
+        const x = highIdx[i];
+        const i0 = Math.min(nHigh - 2, Math.floor(x)), frac = x - i0;
+        v += (1 - w) * (highDb[i0] * (1 - frac) + highDb[i0 + 1] * frac);
+      }
+      outDb[i] = v;
+    }
+  };
+}
+
+// Constant-Q transform on the log grid (Brown & Puckette's spectral-kernel method).
+// Bin k correlates the input with a Blackman-windowed complex tone at its centre frequency,
+// Q cycles long (Q from the grid spacing), so resolution is a fixed fraction of an octave:
+// hi-hats are not smeared over a long window, and notes a semitone apart separate down to
+// where the window reaches maxWindow samples (about 200 Hz for 8192 at 48 kHz; below that the
+// bins keep the cap's resolution, still eight times finer than a 1024-point FFT). All windows
+// end on the newest sample, so the highs react as quickly as the short FFT does.
+// Per frame this is one maxWindow-point FFT plus a dot product with each kernel's main lobe;
+// the lobes are evaluated in closed form up front. Levels are AnalyserNode-scaled.
+export function createConstantQ(maxWindow: number, smoothing: number, sampleRate: number, bins: number, range: LogRange) {
+  const size = maxWindow;
+  const fft = createFft(size);
+  const half = size >> 1;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const mag = new Float32Array(bins);
+
+  // sparse spectral kernels: conj(K_k[j]) / size for j in [start, start + len)
+  const start = new Int32Array(bins);
+  const len = new Int32Array(bins);
+  const ratio = bins > 1 ? Math.pow(range.fMax / range.fMin, 1 / (bins - 1)) : 2;
+  const Q = 1 / (ratio - 1);
+  const kRe: number[] = [], kIm: number[] = [];
+  for (let k = 0; k < bins; k++) {
+    const hz = logBinToHz(k, bins, range);
+    const n = Math.max(16, Math.min(size, Math.ceil(Q * sampleRate / hz)));
+    // the Blackman main lobe spans ±3 bins of an n-point transform
+    const centre = hz * size / sampleRate, lobe = 3 * size / n;
+    const lo = Math.max(0, Math.ceil(centre - lobe)), hi = Math.min(half - 1, Math.floor(centre + lobe));
+    start[k] = lo;
+    len[k] = Math.max(0, hi - lo + 1);
+    for (let j = lo; j <= hi; j++) {
+      const [kr, ki] = kernelAt(hz / sampleRate, n, size, j);
+      kRe.push(kr / size);
+      kIm.push(-ki / size);
+    }
+  }
+  const kernelRe = Float32Array.from(kRe);
+  const kernelIm = Float32Array.from(kIm);
+
+  // frame: the newest maxWindow samples, oldest first; outDb: one value per log bin
+  return function constantQ(frame: Float32Array, outDb: Float32Array) {
+    for (let i = 0; i < size; i++) { re[i] = frame[i]; im[i] = 0; }
+    fft.forward(re, im);
+    for (let k = 0, o = 0; k < bins; k++) {
+      let sr = 0, si = 0;
+      for (let j = start[k], e = j + len[k]; j < e; j++, o++) {
+        const kr = kernelRe[o], ki = kernelIm[o];
+        sr += re[j] * kr - im[j] * ki;
+        si += re[j] * ki + im[j] * kr;
+      }
+      const m = Math.sqrt(sr * sr + si * si);
+      mag[k] = smoothing * mag[k] + (1 - smoothing) * m;
+      outDb[k] = 20 * Math.log10(mag[k]);
+    }
+  };
+}
+
+// DFT bin j (of a size-point transform) of the kernel w(i)/n · e^{2πi·cycles·i}, i < n, placed at
+// the end of the frame. The Blackman window is five complex exponentials, so each term is a
+// geometric series.
+const BLACKMAN_TERMS: ReadonlyArray<readonly [number, number]> = [[0, 0.42], [1, -0.25], [-1, -0.25], [2, 0.04], [-2, 0.04]];
+function kernelAt(cycles: number, n: number, size: number, j: number): [number, number] {
+  let sr = 0, si = 0;
+  for (const [m, c] of BLACKMAN_TERMS) {
+    const theta = 2 * Math.PI * (cycles + m / n - j / size);
+    // Σ_{i<n} e^{iθi} = (1 − e^{iθn}) / (1 − e^{iθ})
+    const dr = 1 - Math.cos(theta), di = -Math.sin(theta);
+    let gr = n, gi = 0;
+    if (dr * dr + di * di > 1e-18) {
+      const nr = 1 - Math.cos(theta * n), ni = -Math.sin(theta * n);
+      const d2 = dr * dr + di * di;
+      gr = (nr * dr + ni * di) / d2;
+      gi = (ni * dr - nr * di) / d2;
+    }
+    sr += c * gr; si += c * gi;
+  }
+  // the window starts size − n samples into the frame
+  const phase = -2 * Math.PI * j * (size - n) / size;
+  const pr = Math.cos(phase), pi = Math.sin(phase);
+  return [(sr * pr - si * pi) / n, (sr * pi + si * pr) / n];
+}
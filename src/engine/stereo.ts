@@ -0,0 +1,87 @@
+// Stereo image: left/right balance, width and phase correlation of a two-channel input.
+// Balance, width and correlation come from the newest samples of the channel waveforms:
+// balance compares the channel RMS levels, width the side (L − R) level against mid + side,
+// and correlation is the normalised L·R product (1 for mono, around 0 for unrelated channels,
+// negative when they are out of phase). bandBalance does the same left/right comparison on the
+// per-channel summary bands the extractor measures from the channel spectra.
+// Everything is smoothed, and a mono or silent input settles to centred, narrow and correlated.
+
+import type { Bands } from './features';
+import type { FrameTime } from './clock';
+
+export type StereoImage = {
+  balance: number;      // -1 left .. 1 right
+  width: number;        // 0 mono .. 1 (side only)
+  correlation: number;  // -1 .. 1
+  bandBalance: Bands;   // balance per low/mid/high band
+};
+
+export type StereoOptions = Partial<{
+  windowSize: number;   // 2048 newest samples measured
+  smoothMs: number;     // 150 time constant of all four measures
+  floorRms: number;     // 1e-4 channels quieter than this (≈ -80 dB) read as silent
+}>;
+
+const DEFAULTS: Required<StereoOptions> = {
+  windowSize: 2048,
+  smoothMs: 150,
+  floorRms: 1e-4,
+};
+
+// Rewritten every frame, so both get their own double-field shapes (see BandValues in features.ts)
+class BandBalance implements Bands {
+  low = 0;
+  mid = 0;
+  high = 0;
+}
+class StereoValues implements StereoImage {
+  balance = 0;
+  width = 0;
+  correlation = 1;
+  bandBalance = new BandBalance();
+}
+
+export function createStereoMeter(opts: StereoOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const state = new StereoValues();
+  const s = new StereoValues(); // this frame's targets, before smoothing (bandBalance unused)
+
+  function measureWaveforms(left: Float32Array, right: Float32Array) {
+    const n = Math.min(left.length, right.length, cfg.windowSize);
+    const offL = left.length - n, offR = right.length - n;
+    let ll = 0, rr = 0, lr = 0;
+    for (let i = 0; i < n; i++) {
+      const l = left[offL + i], r = right[offR + i];
+      ll += l * l; rr += r * r; lr += l * r;
+    }
+    const rmsL = Math.sqrt(ll / Math.max(1, n)), rmsR = Math.sqrt(rr / Math.max(1, n));
+    if (rmsL < cfg.floorRms && rmsR < cfg.floorRms) {
+      s.balance = 0; s.width = 0; s.correlation = 1;
+      return;
+    }
+    s.balance = (rmsR - rmsL) / (rmsR + rmsL);
+    // mid = (l + r) / 2, side = (l − r) / 2, so their energies follow from the sums above
+    const mid = Math.sqrt(Math.max(0, ll + rr + 2 * lr)), side = Math.sqrt(Math.max(0, ll + rr - 2 * lr));
+    s.width = mid + side > 0 ? side / (mid + side) : 0;
+    s.correlation = ll > 0 && rr > 0 ? Math.max(-1, Math.min(1, lr / Math.sqrt(ll * rr))) : 1;
+  }
+
+  // left/right: channel waveforms, newest samples last (undefined for a mono source);
+  // bandsLeft/bandsRight: the channels' summary bands (the same object twice for mono)
+  return function measure(left: Float32Array | undefined, right: Float32Array | undefined, bandsLeft: Bands, bandsRight: Bands, time: FrameTime): StereoImage {
+    if (left && right) measureWaveforms(left, right);
+    else { s.balance = 0; s.width = 0; s.correlation = 1; }
+
+    const a = Math.exp(-time.dt / Math.max(1, cfg.smoothMs));
+    state.balance = a * state.balance + (1 - a) * s.balance;
+    state.width = a * state.width + (1 - a) * s.width;
+    state.correlation = a * state.correlation + (1 - a) * s.correlation;
+    // (r − l) / (r + l) per band, 0 where both are silent
+    const bb = state.bandBalance;
+    const l = bandsLeft, r = bandsRight;
+    bb.low = a * bb.low + (1 - a) * (l.low + r.low > 1e-9 ? (r.low - l.low) / (l.low + r.low) : 0);
+    bb.mid = a * bb.mid + (1 - a) * (l.mid + r.mid > 1e-9 ? (r.mid - l.mid) / (l.mid + r.mid) : 0);
+    bb.high = a * bb.high + (1 - a) * (l.high + r.high > 1e-9 ? (r.high - l.high) / (l.high + r.high) : 0);
+    return state;
+  };
+}
@@ -0,0 +1,201 @@
+// Timbral descriptors: spectral flatness, flux, crest, spread, zero-crossing rate and MFCCs.
+// Raw values are computed from the linear FFT (dB → power) and, for ZCR, the time-domain
+// waveform. Each is also mapped to 0..1 against an adaptive range (decaying min/max),
+// in the same spirit as rmsPeak01, so layers can react to texture rather than loudness.
+
+import type { FrameTime } from './clock';
+
+export type Timbre = {
+  flatness: number;   // 0 tonal .. 1 noisy
+  flux: number;       // frame-to-frame spectral change
+  crest: number;      // peakiness of the spectrum (max / mean)
+  spread: number;     // bandwidth around the centroid
+  zcr: number;        // zero-crossing rate of the waveform
+  mfcc: Float32Array; // 13 mel-frequency cepstral coefficients
+};
+
+export type TimbreOptions = Partial<{
+  fMin: number;       // 20
+  fMax: number;       // 8000
+  melBands: number;   // 26
+  mfccCount: number;  // 13
+  rangeDecayMs: number; // 4000 adaptive min/max relaxation
+}>;
+
+const DEFAULTS: Required<TimbreOptions> = {
+  fMin: 20,
+  fMax: 8000,
+  melBands: 26,
+  mfccCount: 13,
+  rangeDecayMs: 4000,
+};
+
+// Normalizes values against decaying running min/max ranges. The max relaxes down toward
+// the current value and the min relaxes up, so each range follows the material.
+// One set holds `count` independent ranges in typed arrays; normRange is a plain function
+// so callers stay allocation-free (see the ownership note in features.ts).
+export type AdaptiveRanges = {
+  lo: Float64Array;
+  hi: Float64Array;
+  decayMs: number;
+  minSpan: number;
+};
+
+export function createAdaptiveRanges(count: number, decayMs: number, minSpan = 1e-6): AdaptiveRanges {
+  return {
+    lo: new Float64Array(count).fill(Infinity),
+    hi: new Float64Array(count).fill(-Infinity),
+    decayMs,
+    minSpan,
+  };
+}
+
+export function normRange(r: AdaptiveRanges, i: number, x: number, dt: number): number {
+  if (!isFinite(x)) return 0;
+  if (r.lo[i] === Infinity) { r.lo[i] = x; r.hi[i] = x; return 0; }
+  const a = 1 - Math.exp(-dt / Math.max(1, r.decayMs));
+  const hi = r.hi[i] = x > r.hi[i] ? x : r.hi[i] + (x - r.hi[i]) * a;
+  const lo = r.lo[i] = x < r.lo[i] ? x : r.lo[i] + (x - r.lo[i]) * a;
+  const span = hi - lo;
+  if (span < r.minSpan) return 0;
+  const u = (x - lo) / span;
+  return u < 0 ? 0 : u > 1 ? 1 : u;
+}
+
+function hzToMel(hz: number) { return 2595 * Math.log10(1 + hz / 700); }
+function melToHz(mel: number) { return 700 * (Math.pow(10, mel / 2595) - 1); }
+
+export function createTimbreAnalyzer(opts: TimbreOptions = {}) {
+  const cfg = { ...DEFAULTS, ...opts };
+  const M = cfg.melBands, C = cfg.mfccCount;
+
+  // mel filterbank as per-band [start, end) FFT ranges + weights, rebuilt on size/rate change
+  let fbLen = 0, fbRate = 0;
+  let fbStart = new Int32Array(M), fbEnd = new Int32Array(M);
+  let fbWeights: Float32Array[] = [];
+  let binLo = 0, binHi = 0;
+  const melEnergy = new Float32Array(M);
+  // DCT-II basis, C × M
+  const dct = new Float32Array(C * M);
+  for (let c = 0; c < C; c++) {
+    for (let m = 0; m < M; m++) dct[c * M + m] = Math.cos(Math.PI * c * (m + 0.5) / M);
+  }
+
+  let pow = new Float32Array(0);      // power spectrum of the current frame
+  let prevMag = new Float32Array(0);  // last frame's magnitudes (flux)
+
+  const raw: Timbre = { flatness: 0, flux: 0, crest: 0, spread: 0, zcr: 0, mfcc: new Float32Array(C) };
+  const norm: Timbre = { flatness: 0, flux: 0, crest: 0, spread: 0, zcr: 0, mfcc: new Float32Array(C) };
+  const result = { raw, norm };
+
+  // adaptive ranges: [flatness, flux, crest, spread, zcr, mfcc 0..C-1]
+  const SCALARS = 5;
+  const ranges = createAdaptiveRanges(SCALARS + C, cfg.rangeDecayMs);
+  const rawVec = new Float64Array(SCALARS + C);
+  const normVec = new Float64Array(SCALARS + C);
+
+  function buildFilterbank(n: number, sampleRate: number) {
+    fbLen = n; fbRate = sampleRate;
+    const ny = sampleRate * 0.5;
+    const fMax = Math.min(cfg.fMax, ny);
+    const hzToBin = (hz: number) => (hz / ny) * (n - 1);
+    binLo = Math.max(1, Math.floor(hzToBin(cfg.fMin)));
+    binHi = Math.min(n - 1, Math.ceil(hzToBin(fMax)));
+    const m0 = hzToMel(cfg.fMin), m1 = hzToMel(fMax);
+    const edges = new Float32Array(M + 2);
+    for (let i = 0; i < M + 2; i++) edges[i] = hzToBin(melToHz(m0 + (m1 - m0) * i / (M + 1)));
+    fbStart = new Int32Array(M); fbEnd = new Int32Array(M); fbWeights = [];
+    for (let m = 0; m < M; m++) {
+      const l = edges[m], c = edges[m + 1], r = edges[m + 2];
+      // at least one bin per filter so narrow low filters don't vanish on small FFTs
+      const s = Math.max(0, Math.floor(l)), e = Math.min(n, Math.max(s + 1, Math.ceil(r) + 1));
+      const w = new Float32Array(e - s);
+      for (let i = s; i < e; i++) {
+        const up = c > l ? (i - l) / (c - l) : 1;
+        const dn = r > c ? (r - i) / (r - c) : 1;
+        w[i - s] = Math.max(0, Math.min(up, dn));
+      }
+      // nearest bin fallback when the triangle fell between bins
+      if (w.every(v => v === 0)) w[Math.min(w.length - 1, Math.max(0, Math.round(c) - s))] = 1;
+      fbStart[m] = s; fbEnd[m] = e; fbWeights.push(w);
+    }
+    pow = new Float32Array(n);
+    prevMag = new Float32Array(n);
+  }
+
+  return function analyze(fftDb: Float32Array, sampleRate: number, time: FrameTime, waveform?: Float32Array) {
+    const dt = time.dt;
+    const n = fftDb.length;
+    if (n !== fbLen || sampleRate !== fbRate) buildFilterbank(n, sampleRate);
+    const ny = sampleRate * 0.5;
+
+    // dB → power / magnitude over the analysis range
+    let sumMag = 0, maxMag = 0, sumLog = 0, sumPow = 0, count = 0;
+    let wSum = 0, fSum = 0, flux = 0;
+    for (let i = 0; i < n; i++) {
+      const db = fftDb[i];
+      const p = db > -200 ? Math.pow(10, db / 10) : 0;
+      pow[i] = p;
+      if (i < binLo || i > binHi) continue;
+      const mag = Math.sqrt(p);
+      sumMag += mag; sumPow += p; count++;
+      if (mag > maxMag) maxMag = mag;
+      sumLog += Math.log(p + 1e-12);
+      const hz = (i / (n - 1)) * ny;
+      wSum += mag; fSum += mag * hz;
+      const d = mag - prevMag[i];
+      if (d > 0) flux += d;
+      prevMag[i] = mag;
+    }
+    const meanMag = count ? sumMag / count : 0;
+    const meanPow = count ? sumPow / count : 0;
+    raw.flatness = meanPow > 1e-12 ? Math.exp(sumLog / Math.max(1, count)) / meanPow : 0;
+    raw.crest = meanMag > 1e-9 ? maxMag / meanMag : 0;
+    raw.flux = sumMag > 1e-9 ? flux / sumMag : 0;
+    const centroid = wSum > 0 ? fSum / wSum : 0;
+    let var2 = 0;
+    if (wSum > 0) {
+      for (let i = binLo; i <= binHi; i++) {
+        const hz = (i / (n - 1)) * ny;
+        const d = hz - centroid;
+        var2 += Math.sqrt(pow[i]) * d * d;
+      }
+      var2 /= wSum;
+    }
+    raw.spread = Math.sqrt(var2);
+
+    // zero-crossing rate (crossings per sample)
+    let zc = 0;
+    if (waveform && waveform.length > 1) {
+      for (let i = 1; i < waveform.length; i++) {
+        if ((waveform[i - 1] < 0) !== (waveform[i] < 0)) zc++;
+      }
+      raw.zcr = zc / (waveform.length - 1);
+    } else {
+      raw.zcr = 0;
+    }
+
+    // MFCC: log mel energies → DCT-II
+    for (let m = 0; m < M; m++) {
+      const w = fbWeights[m], s = fbStart[m], e = fbEnd[m];
+      let acc = 0;
+      for (let i = s; i < e; i++) acc += pow[i] * w[i - s];
+      melEnergy[m] = Math.log(acc + 1e-10);
+    }
+    for (let c = 0; c < C; c++) {
+      let acc = 0;
+      for (let m = 0; m < M; m++) acc += melEnergy[m] * dct[c * M + m];
+      raw.mfcc[c] = acc;
+    }
+
+    rawVec[0] = raw.flatness; rawVec[1] = raw.flux; rawVec[2] = raw.crest;
+    rawVec[3] = raw.spread; rawVec[4] = raw.zcr;
+    for (let c = 0; c < C; c++) rawVec[SCALARS + c] = raw.mfcc[c];
+    for (let i = 0; i < rawVec.length; i++) normVec[i] = normRange(ranges, i, rawVec[i], dt);
+    norm.flatness = normVec[0]; norm.flux = normVec[1]; norm.crest = normVec[2];
+    norm.spread = normVec[3]; norm.zcr = normVec[4];
+    for (let c = 0; c < C; c++) norm.mfcc[c] = normVec[SCALARS + c];
+
+    return result;
+  };
+}
@@ -0,0 +1,325 @@
+// Offline whole-track analysis: a feature timeline for file playback.
+// The decoded track runs through the same spectrum → extractor chain as live audio
+// (spectrum.ts, features.ts) on a manual clock, as fast as the CPU allows. On top of the
+// per-frame envelope it finds section boundaries (Foote novelty over the self-similarity of
+// chroma, MFCC and band energy), drops (boundaries the loudness jumps across), a label for
+// every section (see sections.ts) and the track's loudness range, so layers can look ahead and normalise against the whole song.
+// Runs in timeline.worker.ts; the query helpers at the bottom are for the UI side.
+
+import { createFeatureExtractor } from './features';
+import { createManualClock } from './clock';
+import { createLevelMeter, createSpectrum } from './spectrum';
+import type { SectionLabel } from './sections';
+
+export type LoudnessRange = {
+  minDb: number;  // quietest non-silent frame
+  maxDb: number;  // loudest frame
+  lowDb: number;  // 10th percentile: the bottom of the range to normalise against
+  highDb: number; // 95th percentile: the top
+};
+
+export type TrackTimeline = {
+  duration: number;         // s
+  frameSec: number;         // seconds per envelope sample
+  energy: Float32Array;     // Features.energy per frame, 0..1
+  loudnessDb: Float32Array; // RMS dB per frame
+  onsets: Float32Array;     // onset times in s (any band), ascending like all the lists below
+  beats: Float32Array;      // beat times in s
+  downbeats: Float32Array;  // downbeat times in s
+  sections: Float32Array;   // section start times in s; the first is 0
+  drops: Float32Array;      // section starts where the loudness jumps up
+  sectionLabels: SectionLabel[]; // one per entry in sections
+  bpm: number;              // from the median beat interval, 0 when no beats were found
+  loudness: LoudnessRange;
+};
+
+export type TimelineOptions = Partial<{
+  fftSize: number;        // 1024 (as live)
+  hop: number;            // 512 (as live)
+  smoothing: number;      // 0.08
+  meterSmoothing: number; // 0.2
+  blockSec: number;       // 0.5 resolution of the section analysis
+  kernelSec: number;      // 8 novelty kernel half-width
+  minSectionSec: number;  // 8 minimum distance between boundaries
+  noveltyK: number;       // 1.0 boundary threshold in std devs above the mean novelty
+  snapBeats: number;      // 2 boundaries move to a downbeat within this many beats
+  dropRiseDb: number;     // 6 loudness rise across a boundary that makes it a drop
+  dropWindowSec: number;  // 4 loudness averaged this long either side of a boundary
+  breakFallDb: number;    // 6 a fall this big across a boundary, or below the typical section loudness, makes a break
+  buildRiseDb: number;    // 3 a section climbing this much from its first to its last quarter is a build
+  silenceDb: number;      // -70 quieter frames are left out of the loudness range
+}>;
+
+const DEFAULTS: Required<TimelineOptions> = {
+  fftSize: 1024,
+  hop: 512,
+  smoothing: 0.08,
+  meterSmoothing: 0.2,
+  blockSec: 0.5,
+  kernelSec: 8,
+  minSectionSec: 8,
+  noveltyK: 1.0,
+  snapBeats: 2,
+  dropRiseDb: 6,
+  dropWindowSec: 4,
+  breakFallDb: 6,
+  buildRiseDb: 3,
+  silenceDb: -70,
+};
+
+// Worker protocol (timeline.worker.ts)
+export type TimelineRequest = { samples: Float32Array; sampleRate: number; options?: TimelineOptions };
+export type TimelineMessage =
+  | { type: 'progress'; value: number } // 0..1
+  | { type: 'done'; timeline: TrackTimeline }
+  | { type: 'error'; message: string };
+
+function median(xs: number[]) {
+  if (!xs.length) return 0;
+  const s = xs.slice().sort((a, b) => a - b);
+  return s[s.length >> 1];
+}
+
+function percentile(sorted: Float32Array, p: number) {
+  if (!sorted.length) return -Infinity;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// The live tracker needs a few seconds to lock; extend its grid back to the start of the track
+function backfill(times: number[]) {
+  if (times.length < 4) return times;
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) gaps.push(times[i] - times[i - 1]);
+  const period = median(gaps);
+  const head: number[] = [];
+  for (let t = times[0] - period; t >= 0; t -= period) head.push(t);
+  return head.reverse().concat(times);
+}
+
+// Foote novelty: a checkerboard kernel slid along the diagonal of the cosine self-similarity
+function novelty(feat: Float32Array, dim: number, blocks: number, K: number) {
+  const out = new Float32Array(blocks);
+  const sigma = Math.max(1, K / 2);
+  const sim = (i: number, j: number) => {
+    let s = 0;
+    for (let d = 0; d < dim; d++) s += feat[i * dim + d] * feat[j * dim + d];
+    return s;
+  };
+  for (let i = 0; i < blocks; i++) {
+    let acc = 0;
+    for (let a = -K; a < K; a++) {
+      const ia = i + a;
+      if (ia < 0 || ia >= blocks) continue;
+      for (let b = -K; b < K; b++) {
+        const ib = i + b;
+        if (ib < 0 || ib >= blocks) continue;
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const g = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (2 * sigma * sigma));
+        acc += sign * g * sim(ia, ib);
+      }
+    }
+    out[i] = acc;
+  }
+  return out;
+}
+
+export function analyzeTrack(samples: Float32Array, sampleRate: number, opts: TimelineOptions = {}, onProgress?: (p: number) => void): TrackTimeline {
+  const cfg = { ...DEFAULTS, ...opts };
+  const N = cfg.fftSize, hop = cfg.hop;
+  const frameSec = hop / sampleRate;
+  const frames = Math.floor(samples.length / hop);
+
+  const spectrum = createSpectrum(N, cfg.smoothing);
+  const meter = createLevelMeter(cfg.meterSmoothing, hop, sampleRate);
+  const clock = createManualClock();
+  const extract = createFeatureExtractor({ now: clock.now });
+  const window = new Float32Array(N);
+  const db = new Float32Array(N >> 1);
+
+  const energy = new Float32Array(frames);
+  const loudnessDb = new Float32Array(frames);
+  const onsets: number[] = [], beats: number[] = [], downbeats: number[] = [];
+
+  // per-block feature vectors for segmentation: chroma, raw MFCC, energy, low/mid/high
+  const perBlock = Math.max(1, Math.round(cfg.blockSec / frameSec));
+  const blocks = Math.ceil(frames / perBlock);
+  let dim = 0;
+  let feat = new Float32Array(0);
+
+  let lastReport = -1;
+  for (let i = 0; i < frames; i++) {
+    const end = (i + 1) * hop;
+    for (let j = 0; j < N; j++) {
+      const k = end - N + j;
+      window[j] = k >= 0 ? samples[k] : 0;
+    }
+    spectrum(window, db);
+    const level = meter(samples, end - hop, end);
+    const t = end / sampleRate;
+    clock.set(t * 1000);
+    const f = extract(db, level, sampleRate);
+
+    energy[i] = f.energy;
+    loudnessDb[i] = level;
+    if (f.onsets.low.hit || f.onsets.mid.hit || f.onsets.high.hit) onsets.push(t);
+    if (f.isBeat) beats.push(t);
+    if (f.isDownbeat) downbeats.push(t);
+
+    if (!dim) {
+      dim = 12 + f.timbreRaw.mfcc.length + 4;
+      feat = new Float32Array(blocks * dim);
+    }
+    const row = Math.floor(i / perBlock) * dim;
+    for (let c = 0; c < 12; c++) feat[row + c] += f.chroma[c];
+    for (let c = 0; c < f.timbreRaw.mfcc.length; c++) feat[row + 12 + c] += f.timbreRaw.mfcc[c];
+    const o = row + 12 + f.timbreRaw.mfcc.length;
+    feat[o] += f.energy; feat[o + 1] += f.bandsRaw.low; feat[o + 2] += f.bandsRaw.mid; feat[o + 3] += f.bandsRaw.high;
+
+    const p = Math.floor((i / frames) * 100);
+    if (p !== lastReport) { lastReport = p; onProgress?.(p / 100); }
+  }
+
+  // z-score each feature over the track, then unit-normalise rows for cosine similarity
+  for (let d = 0; d < dim; d++) {
+    let mean = 0, sq = 0;
+    for (let b = 0; b < blocks; b++) mean += feat[b * dim + d];
+    mean /= Math.max(1, blocks);
+    for (let b = 0; b < blocks; b++) { const x = feat[b * dim + d] - mean; sq += x * x; }
+    const std = Math.sqrt(sq / Math.max(1, blocks)) || 1;
+    for (let b = 0; b < blocks; b++) feat[b * dim + d] = (feat[b * dim + d] - mean) / std;
+  }
+  for (let b = 0; b < blocks; b++) {
+    let n = 0;
+    for (let d = 0; d < dim; d++) n += feat[b * dim + d] ** 2;
+    n = Math.sqrt(n) || 1;
+    for (let d = 0; d < dim; d++) feat[b * dim + d] /= n;
+  }
+
+  // boundaries: novelty peaks above mean + k·std, at least minSectionSec apart
+  const blockSec = perBlock * frameSec;
+  const K = Math.max(1, Math.round(cfg.kernelSec / blockSec));
+  const nov = novelty(feat, dim, blocks, K);
+  let nMean = 0, nSq = 0;
+  for (const x of nov) nMean += x;
+  nMean /= Math.max(1, blocks);
+  for (const x of nov) nSq += (x - nMean) ** 2;
+  const threshold = nMean + cfg.noveltyK * Math.sqrt(nSq / Math.max(1, blocks));
+  const minGap = Math.max(1, Math.round(cfg.minSectionSec / blockSec));
+  const fullBeats = backfill(beats);
+  const fullDownbeats = backfill(downbeats);
+  const beatPeriod = fullBeats.length > 1 ? (fullBeats[fullBeats.length - 1] - fullBeats[0]) / (fullBeats.length - 1) : 0;
+  const sections = [0];
+  for (let b = minGap; b < blocks - minGap; b++) {
+    if (nov[b] < threshold) continue;
+    let isPeak = true;
+    for (let j = b - minGap; j <= b + minGap && isPeak; j++) if (nov[j] > nov[b]) isPeak = false;
+    if (!isPeak) continue;
+    // the boundary sits between blocks b-1 and b; snap it to a nearby downbeat
+    const raw = b * blockSec;
+    let t = raw, best = cfg.snapBeats * beatPeriod;
+    for (const d of fullDownbeats) {
+      const e = Math.abs(d - raw);
+      if (e <= best) { best = e; t = d; }
+    }
+    if (t - sections[sections.length - 1] >= cfg.minSectionSec * 0.5) sections.push(t);
+  }
+
+  // drops: boundaries the loudness rises sharply across (the energy envelope is too
+  // compressed near the top to tell a drop from a busier verse)
+  const w = Math.max(1, Math.round(cfg.dropWindowSec / frameSec));
+  const meanDb = (from: number, to: number) => {
+    let s = 0, n = 0;
+    for (let i = Math.max(0, from); i < Math.min(frames, to); i++) { s += Math.max(cfg.silenceDb, loudnessDb[i]); n++; }
+    return n ? s / n : cfg.silenceDb;
+  };
+  const drops = sections.slice(1).filter(t => {
+    const i = Math.round(t / frameSec);
+    return meanDb(i, i + w) - meanDb(i - w, i) >= cfg.dropRiseDb;
+  });
+
+  // labels: drops as found above; a section that climbs through its length, or leads into a
+  // drop, is a build; one the loudness falls into, or well below the typical section, a break
+  const bounds = [...sections.map(t => Math.round(t / frameSec)), frames];
+  const sectionDb = sections.map((_, i) => meanDb(bounds[i], bounds[i + 1]));
+  const typicalDb = median(sectionDb);
+  const sectionLabels: SectionLabel[] = sections.map((t, i): SectionLabel => {
+    if (drops.includes(t)) return 'drop';
+    const q = Math.max(1, Math.floor((bounds[i + 1] - bounds[i]) / 4));
+    const climb = meanDb(bounds[i + 1] - q, bounds[i + 1]) - meanDb(bounds[i], bounds[i] + q);
+    if (climb >= cfg.buildRiseDb || drops.includes(sections[i + 1])) return 'build';
+    const fall = i > 0 ? meanDb(bounds[i] - w, bounds[i]) - meanDb(bounds[i], bounds[i] + w) : 0;
+    if (fall >= cfg.breakFallDb || sectionDb[i] <= typicalDb - cfg.breakFallDb) return 'break';
+    return 'steady';
+  });
+
+  // loudness range over non-silent frames
+  const audible = loudnessDb.filter(x => x > cfg.silenceDb).sort();
+  const loudness: LoudnessRange = audible.length
+    ? { minDb: audible[0], maxDb: audible[audible.length - 1], lowDb: percentile(audible, 0.1), highDb: percentile(audible, 0.95) }
+    : { minDb: -Infinity, maxDb: -Infinity, lowDb: -Infinity, highDb: -Infinity };
+
+  const ibi = [];
+  for (let i = 1; i < fullBeats.length; i++) ibi.push(fullBeats[i] - fullBeats[i - 1]);
+  const period = median(ibi);
+
+  onProgress?.(1);
+  return {
+    duration: samples.length / sampleRate,
+    frameSec,
+    energy,
+    loudnessDb,
+    onsets: Float32Array.from(onsets),
+    beats: Float32Array.from(fullBeats),
+    downbeats: Float32Array.from(fullDownbeats),
+    sections: Float32Array.from(sections),
+    drops: Float32Array.from(drops),
+    sectionLabels,
+    bpm: period > 0 ? 60 / period : 0,
+    loudness,
+  };
+}
+
+// Index of the first entry in an ascending list that is > t (times.length when none)
+function upperBound(times: Float32Array, t: number) {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+// Seconds from t (track position) to the next event in a list (beats, drops, sections...);
+// Infinity when there are none left
+export function timeUntil(times: Float32Array, t: number): number {
+  const i = upperBound(times, t);
+  return i < times.length ? times[i] - t : Infinity;
+}
+
+// Seconds since the last event at or before t; Infinity before the first
+export function timeSince(times: Float32Array, t: number): number {
+  const i = upperBound(times, t) - 1;
+  return i >= 0 ? t - times[i] : Infinity;
+}
+
+// Index of the section playing at t
+export function sectionAt(tl: TrackTimeline, t: number): number {
+  return Math.max(0, upperBound(tl.sections, t) - 1);
+}
+
+// Energy envelope at t (linear interpolation between frames)
+export function energyAt(tl: TrackTimeline, t: number): number {
+  const n = tl.energy.length;
+  if (!n) return 0;
+  const x = Math.max(0, Math.min(n - 1, t / tl.frameSec - 1));
+  const i = Math.floor(x), frac = x - i;
+  return i + 1 < n ? tl.energy[i] * (1 - frac) + tl.energy[i + 1] * frac : tl.energy[i];
+}
+
+// A dB level (e.g. Features.rmsDb) mapped 0..1 against the whole track's loudness range
+export function loudness01(tl: TrackTimeline, db: number): number {
+  const { lowDb, highDb } = tl.loudness;
+  if (!isFinite(lowDb) || highDb <= lowDb) return 0;
+  const u = (db - lowDb) / (highDb - lowDb);
+  return u < 0 ? 0 : u > 1 ? 1 : u;
+}
@@ -0,0 +1,22 @@
+// Web Worker wrapper around analyzeTrack (protocol in timeline.ts).
+// In: one TimelineRequest with the mono samples transferred. Out: progress messages,
+// then the timeline with its arrays transferred back. Loaded with Vite's `?worker`.
+
+import { analyzeTrack, type TimelineMessage, type TimelineRequest } from './timeline';
+
+// DedicatedWorkerGlobalScope isn't part of the DOM lib
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<TimelineRequest>) => void) | null;
+  postMessage(msg: TimelineMessage, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = (e) => {
+  const { samples, sampleRate, options } = e.data;
+  try {
+    const timeline = analyzeTrack(samples, sampleRate, options, value => scope.postMessage({ type: 'progress', value }));
+    const arrays = [timeline.energy, timeline.loudnessDb, timeline.onsets, timeline.beats, timeline.downbeats, timeline.sections, timeline.drops];
+    scope.postMessage({ type: 'done', timeline }, arrays.map(a => a.buffer));
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,200 @@
+// Scene transitions: morph from what's on screen to a scene preset over a number of seconds or
+// beats. Sliders tween (eased, snapped to their step), toggles, selects and the modulation
+// matrix switch once the transition passes `switchAt`, and layers only one side has fade in or
+// out through Layer.setOpacity; layers that can't fade appear or disappear at the switch point.
+// The host ticks the morph once per frame before the modulation matrix, so a transition moves
+// the base values that modulation then works on; the end values are saved like any edit.
+// The selection changes (fading layers join it for the duration) go to onLayers listeners,
+// which select those layers in the UI.
+// A queue of scenes can advance by itself on section changes or every N bars; beat-based
+// durations follow the beat tracker's tempo, FALLBACK_BPM until it has one.
+
+import type { Features } from './features';
+import { modulation, registry, saveState, type Control, type Layer } from './layers';
+import { validateState, type LayerState, type ScenePreset } from './presets';
+
+export type TransitionUnit = 'seconds' | 'beats';
+export type TransitionTrigger = 'manual' | 'section' | 'bars';
+
+export type TransitionOptions = Partial<{
+  duration: number;             // 4 in `unit`; 0 switches at once
+  unit: TransitionUnit;         // 'beats'
+  switchAt: number;             // 0.5 point (0..1) where toggles, selects and modulation switch
+  trigger: TransitionTrigger;   // 'manual' what advances the queue
+  everyBars: number;            // 8 bars between queue steps for trigger 'bars'
+}>;
+
+export const TRANSITION_DEFAULTS: Required<TransitionOptions> = {
+  duration: 4,
+  unit: 'beats',
+  switchAt: 0.5,
+  trigger: 'manual',
+  everyBars: 8,
+};
+
+const FALLBACK_BPM = 120;
+
+type Track = {
+  layer: Layer;
+  from: LayerState;
+  to: LayerState;
+  fade: 'in' | 'out' | null;
+};
+
+type Slider = Extract<Control, { kind: 'slider' }>;
+
+function snap(c: Slider, v: number) {
+  return c.step > 0 ? Math.max(c.min, Math.min(c.max, c.min + Math.round((v - c.min) / c.step) * c.step)) : v;
+}
+
+export function createSceneMorph(opts: TransitionOptions = {}) {
+  const cfg = { ...TRANSITION_DEFAULTS, ...opts };
+  const s = { running: false, elapsed: 0, progress: 0, switched: false, bars: 0, index: -1 };
+  let tracks: Track[] = [];
+  let target: ScenePreset | null = null;
+  let pending: ScenePreset | null = null;
+  let queue: ScenePreset[] = [];
+  let selection: string[] = [];
+  // faded-out layers, left at opacity 0 until they are selected again (true once seen deselected)
+  const faded = new Map<Layer, boolean>();
+  const listeners = new Set<(layerIds: string[]) => void>();
+
+  function select(ids: string[]) {
+    if (ids.length === selection.length && ids.every((id, i) => id === selection[i])) return;
+    selection = ids;
+    for (const listener of listeners) listener(ids);
+  }
+
+  // Layers shown at this point of the transition: fading layers throughout, the others by side
+  function visible() {
+    const incoming = tracks.filter(t => t.fade !== 'out' && (t.fade === null || !!t.layer.setOpacity || s.switched));
+    const outgoing = tracks.filter(t => t.fade === 'out' && (!!t.layer.setOpacity || !s.switched));
+    return [...incoming, ...outgoing].map(t => t.layer.id);
+  }
+
+  function apply(p: number) {
+    const e = p * p * (3 - 2 * p);
+    const switched = p >= cfg.switchAt;
+    for (const t of tracks) {
+      for (const c of t.layer.controls) {
+        if (c.kind === 'slider') {
+          const a = t.from[c.key] as number, b = t.to[c.key] as number;
+          t.layer.state[c.key] = a === b ? b : snap(c, a + (b - a) * e);
+        } else {
+          t.layer.state[c.key] = switched ? t.to[c.key] : t.from[c.key];
+        }
+      }
+      if (t.fade === 'in') t.layer.setOpacity?.(e);
+      else if (t.fade === 'out') t.layer.setOpacity?.(1 - e);
+    }
+    if (switched && !s.switched) {
+      s.switched = true;
+      if (target) modulation.importState(target.modulation);
+    }
+    s.progress = p;
+  }
+
+  function finish() {
+    if (!s.running) return;
+    apply(1);
+    for (const t of tracks) {
+      // outgoing layers stay invisible until the selection drops them
+      if (t.fade === 'out') faded.set(t.layer, false);
+      else saveState(t.layer.id, t.layer.state);
+    }
+    s.running = false;
+    select(tracks.filter(t => t.fade !== 'out').map(t => t.layer.id));
+    tracks = [];
+    target = null;
+  }
+
+  function begin(scene: ScenePreset, activeIds: string[]) {
+    finish();
+    const incoming: Track[] = [];
+    for (const entry of scene.layers) {
+      const layer = registry.get(entry.id);
+      if (!layer) continue;
+      const to = validateState(layer.controls, entry.state);
+      const active = activeIds.includes(layer.id);
+      faded.delete(layer);
+      incoming.push({ layer, from: active ? validateState(layer.controls, layer.state) : to, to, fade: active ? null : 'in' });
+    }
+    if (!incoming.length) return;
+    const outgoing: Track[] = activeIds
+      .filter(id => !incoming.some(t => t.layer.id === id))
+      .map(id => registry.get(id))
+      .filter((layer): layer is Layer => !!layer)
+      .map(layer => {
+        const state = validateState(layer.controls, layer.state);
+        return { layer, from: state, to: state, fade: 'out' as const };
+      });
+    tracks = [...incoming, ...outgoing];
+    target = scene;
+    s.running = true;
+    s.elapsed = 0;
+    s.switched = false;
+    selection = activeIds.slice();
+    apply(0);
+    select(visible());
+    if (cfg.duration <= 0) finish();
+  }
+
+  function next() {
+    if (!queue.length) return;
+    s.index = (s.index + 1) % queue.length;
+    pending = queue[s.index];
+  }
+
+  // Once per frame, before the modulation matrix; activeIds are the layers selected now
+  function tick(f: Features, activeIds: string[]) {
+    for (const [layer, seenOff] of faded) {
+      const on = activeIds.includes(layer.id);
+      if (!on) faded.set(layer, true);
+      else if (seenOff) { layer.setOpacity?.(1); faded.delete(layer); }
+    }
+    if (cfg.trigger === 'section' && f.section.changed) next();
+    if (cfg.trigger === 'bars' && f.isDownbeat && ++s.bars >= Math.max(1, cfg.everyBars)) {
+      s.bars = 0;
+      next();
+    }
+    if (pending) {
+      const scene = pending;
+      pending = null;
+      begin(scene, activeIds);
+    }
+    if (!s.running) return;
+    const bpm = f.tempo.bpm > 0 ? f.tempo.bpm : FALLBACK_BPM;
+    s.elapsed += cfg.unit === 'beats' ? f.dt * bpm / 60000 : f.dt / 1000;
+    const wasSwitched = s.switched;
+    apply(Math.min(1, s.elapsed / Math.max(1e-3, cfg.duration)));
+    if (s.switched !== wasSwitched) select(visible());
+    if (s.progress >= 1) finish();
+  }
+
+  return {
+    tick,
+    // Morph to a scene from the next frame on (a running transition jumps to its end first)
+    start: (scene: ScenePreset) => { pending = scene; },
+    next,
+    skip: finish,
+    configure: (patch: TransitionOptions) => { Object.assign(cfg, patch); },
+    // The queue; scenes are looked up again by the caller whenever they change
+    setQueue: (scenes: ScenePreset[]) => {
+      queue = scenes;
+      if (s.index >= queue.length) s.index = queue.length - 1;
+    },
+    // Called with the layer ids to select whenever a transition changes them. Returns an unsubscribe.
+    onLayers(listener: (layerIds: string[]) => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    running: () => s.running,
+    progress: () => (s.running ? s.progress : null),
+    target: () => target,
+    queueIndex: () => s.index,
+  };
+}
+
+export type SceneMorph = ReturnType<typeof createSceneMorph>;
+
+export const sceneMorph = createSceneMorph();
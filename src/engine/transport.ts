@@ -0,0 +1,140 @@
+// Playback transport derived from the audio context clock.
+// Position is computed from an anchor (context time + track offset) instead of being
+// accumulated by a timer, so it never drifts and knows exactly when the track ends.
+
+export type TransportState = 'stopped' | 'playing' | 'paused' | 'ended'
+
+export type LoopRegion = { start: number; end: number } // seconds, A–B
+
+export type TransportSnapshot = {
+  state: TransportState
+  position: number   // seconds into the track
+  duration: number   // seconds
+  loop: boolean
+  region: LoopRegion | null
+}
+
+export interface Transport {
+  readonly state: TransportState
+  readonly duration: number
+  readonly loop: boolean
+  readonly region: LoopRegion | null
+  position(): number
+  snapshot(): TransportSnapshot
+  load(duration: number): void
+  play(atCtxTime: number, from?: number): void
+  pause(): void
+  stop(): void
+  seek(position: number): void
+  setLoop(on: boolean): void
+  setRegion(region: LoopRegion | null): void
+  tick(): boolean
+}
+
+// Wrap a raw (unbounded) position into the active loop bounds.
+function wrapLoop(raw: number, start: number, end: number) {
+  const len = end - start
+  if (len <= 0 || raw < end) return raw
+  return start + ((raw - end) % len)
+}
+
+export function createTransport(now: () => number): Transport {
+  let state: TransportState = 'stopped'
+  let duration = 0
+  let loop = false
+  let region: LoopRegion | null = null
+
+  // position = anchorPos + (now - anchorCtx) while playing
+  let anchorCtx = 0
+  let anchorPos = 0
+
+  const loopBounds = () => region ?? { start: 0, end: duration }
+
+  const clampPos = (p: number) => Math.max(0, Math.min(duration, p))
+
+  const position = () => {
+    if (state !== 'playing') return anchorPos
+    // Playback may be scheduled slightly in the future (Tone lookAhead)
+    const raw = anchorPos + Math.max(0, now() - anchorCtx)
+    if (loop) {
+      const { start, end } = loopBounds()
+      return wrapLoop(raw, start, end)
+    }
+    return Math.min(raw, duration)
+  }
+
+  return {
+    get state() { return state },
+    get duration() { return duration },
+    get loop() { return loop },
+    get region() { return region },
+
+    position,
+
+    snapshot() {
+      return { state, position: position(), duration, loop, region }
+    },
+
+    load(d: number) {
+      duration = Math.max(0, d || 0)
+      state = 'stopped'
+      anchorPos = 0
+      if (region && region.end > duration) region = null
+    },
+
+    play(atCtxTime: number, from?: number) {
+      let p = from ?? anchorPos
+      // Restart from the top (or loop start) once the track has ended
+      if (state === 'ended' || p >= duration) p = loop ? loopBounds().start : 0
+      anchorPos = clampPos(p)
+      anchorCtx = atCtxTime
+      state = 'playing'
+    },
+
+    pause() {
+      if (state !== 'playing') return
+      anchorPos = position()
+      state = 'paused'
+    },
+
+    stop() {
+      anchorPos = 0
+      state = 'stopped'
+    },
+
+    seek(p: number) {
+      // Re-anchor so a seek while playing continues from the new position;
+      // while paused it only moves the resume point.
+      if (state === 'playing') anchorCtx = now()
+      else if (state === 'ended' || state === 'stopped') state = 'paused'
+      anchorPos = clampPos(p)
+    },
+
+    setLoop(on: boolean) {
+      if (state === 'playing') { anchorPos = position(); anchorCtx = now() }
+      loop = on
+    },
+
+    setRegion(r: LoopRegion | null) {
+      if (state === 'playing') { anchorPos = position(); anchorCtx = now() }
+      if (r) {
+        const start = clampPos(Math.min(r.start, r.end))
+        const end = clampPos(Math.max(r.start, r.end))
+        region = end - start > 0.01 ? { start, end } : null
+      } else {
+        region = null
+      }
+    },
+
+    // Advance end-of-track detection. Returns true on the frame the track ends.
+    tick() {
+      if (state !== 'playing' || loop || duration <= 0) return false
+      if (anchorPos + (now() - anchorCtx) >= duration) {
+        anchorPos = duration
+        state = 'ended'
+        return true
+      }
+      return false
+    },
+  }
+}
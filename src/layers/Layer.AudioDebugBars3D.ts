@@ -136,6 +136,17 @@ class AudioDebugBars3D implements Layer {
     this.highMesh.position.set(xBands - 2 * BAND_X_SPACING, baseY + highH / 2, Z_OFFSET)
     this.highMesh.scale.set(bW, highH, 1)
     this.highMesh.matrixAutoUpdate = true
+
+    // Flash band bars on their spectral-flux onsets
+    this.matLow.color.setHex(f.onsets.low.hit ? 0xb3e5fc : 0x29b6f6)
+    this.matMid.color.setHex(f.onsets.mid.hit ? 0xffecb3 : 0xffc107)
+    this.matHigh.color.setHex(f.onsets.high.hit ? 0xff8a80 : 0xff1744)
+  }
+
+  setOpacity(opacity: number): void {
+    this.matBins.opacity = 0.9 * opacity
+    this.matRms.opacity = 0.95 * opacity
+    this.matLow.opacity = this.matMid.opacity = this.matHigh.opacity = 0.9 * opacity
   }
 
   setEnabled(on: boolean): void {
@@ -1,6 +1,10 @@
 import * as THREE from 'three'
 import { type Layer, type LayerContext, createStateFromControls, registry } from '../engine/layers'
 import type { Features } from '../engine/features'
+import { logBandAverage } from '../engine/bins'
+import { createRng, type Rng } from '../engine/random'
+
+const RNG_SEED = 0x5eed
 
 type Attrs = {
   a_birth: THREE.BufferAttribute
@@ -25,6 +29,13 @@ class CannonFireworks3D implements Layer {
     { kind: 'slider', key: 'particleLifeMs', label: 'Life (ms)', min: 400, max: 2200, step: 10, default: 1200 },
     { kind: 'slider', key: 'particleSizePx', label: 'Size (px)', min: 2, max: 12, step: 1, default: 5 },
     { kind: 'slider', key: 'maxParticles', label: 'Max Particles', min: 2000, max: 20000, step: 100, default: 16000 },
+    { kind: 'select', key: 'emission', label: 'Emission', options: [
+      { label: 'Bass flow', value: 'bass' },
+      { label: 'Beats', value: 'beats' },
+    ], default: 'beats' },
+    { kind: 'slider', key: 'beatBurst', label: 'Beat Burst (per cannon)', min: 1, max: 40, step: 1, default: 12 },
+    { kind: 'slider', key: 'minBeatConfidence', label: 'Min Beat Confidence', min: 0, max: 1, step: 0.05, default: 0.35 },
+    { kind: 'slider', key: 'stereoSteer', label: 'Stereo Steer', min: 0, max: 1, step: 0.05, default: 0.8 },
   ]
   state: Record<string, any> = {}
 
@@ -40,10 +51,23 @@ class CannonFireworks3D implements Layer {
   private emitCarry = 0
   private lastCannonIndex = 0
 
-  private lastT = performance.now()
+  // Layer time in ms, accumulated from f.dt so particles keep their own timeline
+  // (and float32 precision) whatever clock the features run on
+  private time = 0
+  private rng: Rng = createRng(RNG_SEED)
+  // Burst multiplier from this frame's beat event (2 on downbeats), spent in update()
+  private pendingBurst = 0
+  private opacity = 1 // scene transition fade (setOpacity)
 
   init(ctx: LayerContext): void {
     createStateFromControls(this)
+    this.time = 0
+    this.rng = createRng(RNG_SEED)
+    this.pendingBurst = 0
+    ctx.events.on('beat', (e) => {
+      if (this.state.emission !== 'beats' || e.confidence < (this.state.minBeatConfidence as number)) return
+      this.pendingBurst = e.downbeat ? 2 : 1
+    })
     const N = this.state.maxParticles as number
     this.birthTimes = new Float32Array(N)
     this.lifeTimes = new Float32Array(N)
@@ -75,6 +99,7 @@ class CannonFireworks3D implements Layer {
       uniforms: {
         u_time: { value: 0 },
         u_gravity: { value: this.state.gravity as number },
+        u_fade: { value: this.opacity },
       },
       vertexShader: `
         uniform float u_time;
@@ -102,6 +127,7 @@ class CannonFireworks3D implements Layer {
       `,
       fragmentShader: `
         precision mediump float;
+        uniform float u_fade;
         varying float v_life;
         varying float v_hue;
         // simple HSL to RGB (approx)
@@ -121,7 +147,7 @@ class CannonFireworks3D implements Layer {
         void main(){
           float alpha = smoothstep(0.0, 0.1, v_life) * smoothstep(0.0, 1.0, v_life);
           vec3 col = hsl2rgb(v_hue, 0.8, mix(0.4, 0.9, v_life));
-          gl_FragColor = vec4(col, alpha);
+          gl_FragColor = vec4(col, alpha * u_fade);
         }
       `,
     })
@@ -134,9 +160,9 @@ class CannonFireworks3D implements Layer {
 
   update(_ctx: LayerContext, f: Features): void {
     if (!this.points || !this.attrs) return
-    const now = performance.now()
-    const dt = Math.max(1, now - this.lastT)
-    this.lastT = now
+    const dt = f.dt
+    this.time += dt
+    const now = this.time
 
     const N = this.state.maxParticles as number
     const cannons = this.state.cannonCount as number
@@ -151,43 +177,48 @@ class CannonFireworks3D implements Layer {
     ;(this.points.material as THREE.ShaderMaterial).uniforms.u_gravity.value = gravity
 
     // Compute band energies from normalized bins (fallback to processed if absent)
-    const bins = (f as any).bins ?? f.binsLog
-    const nBins = bins.length
+    const bins = f.bins ?? f.binsLog
     let lowAvg = f.bands.low, midAvg = f.bands.mid, highAvg = f.bands.high
-    if (nBins > 0) {
-      const fMin = 20, fMax = 8000
-      const mapHzToIdx = (hz: number) => {
-        const t = (Math.log(hz) - Math.log(fMin)) / (Math.log(fMax) - Math.log(fMin))
-        const idx = Math.round(t * (nBins - 1))
-        return Math.max(0, Math.min(nBins - 1, idx))
-      }
-      const avgRange = (hz0: number, hz1: number) => {
-        const i0 = mapHzToIdx(hz0)
-        const i1 = mapHzToIdx(hz1)
-        const a = Math.min(i0, i1), b = Math.max(i0, i1)
-        let s = 0, c = 0
-        for (let i = a; i <= b; i++) { s += bins[i]; c++ }
-        return c ? s / c : 0
-      }
-      lowAvg = avgRange(20, 160)
-      midAvg = avgRange(160, 2000)
-      highAvg = avgRange(2000, 8000)
+    if (bins.length > 0) {
+      lowAvg = logBandAverage(bins, 20, 160, f.logRange)
+      midAvg = logBandAverage(bins, 160, 2000, f.logRange)
+      highAvg = logBandAverage(bins, 2000, 8000, f.logRange)
     }
 
     // Audio-driven emission only: threshold and curve to avoid constant trickle
     const low = Math.max(0, lowAvg - 0.04)
     const audioDrive = Math.pow(low, 2) // emphasize stronger lows
-    const ratePerCannon = audioDrive * (this.state.bassRateGain as number) // particles/sec per cannon
     const dtSec = dt / 1000
 
+    // Beat mode fires bursts on tracked beats; without a confident tempo it falls back to bass flow
+    const onBeats = this.state.emission === 'beats' && f.tempo.confidence >= (this.state.minBeatConfidence as number)
+    const ratePerCannon = onBeats ? 0 : audioDrive * (this.state.bassRateGain as number) // particles/sec per cannon
+
     // Accumulate fractional emissions across frames for stability
     const totalToEmit = cannons * ratePerCannon * dtSec + this.emitCarry
     let numToEmit = Math.floor(totalToEmit)
     this.emitCarry = totalToEmit - numToEmit
+    if (this.pendingBurst) {
+      const burst = (this.state.beatBurst as number) * this.pendingBurst * (0.5 + Math.min(1, lowAvg))
+      numToEmit += Math.round(cannons * burst)
+      this.pendingBurst = 0
+    }
+
+    // Stereo steering: the cannons on the louder side fire more. Going round the ring, a cannon
+    // at x = cos(angle) takes its turn with probability (1 + steer·x) / (1 + |steer|) and is
+    // skipped otherwise (a centred mix keeps the plain round-robin).
+    const steer = (this.state.stereoSteer as number) * f.stereo.balance
+    const steerMax = 1 + Math.abs(steer)
 
     while (numToEmit-- > 0) {
-      const c = this.lastCannonIndex % cannons
+      let c = this.lastCannonIndex % cannons
       this.lastCannonIndex = (this.lastCannonIndex + 1) % cannons
+      if (steer !== 0) {
+        while (this.rng() * steerMax > 1 + steer * Math.cos((c / cannons) * Math.PI * 2)) {
+          c = this.lastCannonIndex
+          this.lastCannonIndex = (this.lastCannonIndex + 1) % cannons
+        }
+      }
       const baseAngle = (c / cannons) * Math.PI * 2
       // Orient cannons around XY ring (z = 0), shooting slightly out of plane (+Z) by tilt
       const dirX = Math.cos(baseAngle) * Math.cos(tilt)
@@ -200,11 +231,11 @@ class CannonFireworks3D implements Layer {
       const tBirth = now
       const hue = (0.03 * c + 0.6 * highAvg + 0.2 * midAvg) % 1
       const speed = 1.8 + 2.2 * f.energy
-      const spreadAngle = (Math.random() - 0.5) * spread
+      const spreadAngle = (this.rng() - 0.5) * spread
       const cs = Math.cos(spreadAngle)
       const vx = dirX * speed * cs
       const vy = dirY * speed * cs
-      const vz = dirZ * speed + (Math.random() * 0.3)
+      const vz = dirZ * speed + (this.rng() * 0.3)
       const px = Math.cos(baseAngle) * R
       const py = Math.sin(baseAngle) * R
       const pz = 0
@@ -231,6 +262,11 @@ class CannonFireworks3D implements Layer {
     if (this.points) this.points.visible = on
   }
 
+  setOpacity(opacity: number): void {
+    this.opacity = opacity
+    if (this.points) (this.points.material as THREE.ShaderMaterial).uniforms.u_fade.value = opacity
+  }
+
   dispose(): void {
     if (this.points) {
       this.points.geometry.dispose()
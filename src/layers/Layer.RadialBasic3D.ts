@@ -6,6 +6,7 @@ import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js'
 
 import { type Layer, type LayerContext, createStateFromControls, registry } from '../engine/layers'
 import type { Features } from '../engine/features'
+import { keyHue } from '../engine/chroma'
 
 // ---- small helpers (no per-frame allocs) ----
 function smooth3(src: Float32Array, out: Float32Array) {
@@ -22,6 +23,12 @@ class RadialBasic3D implements Layer {
 
   controls: import('../engine/layers').Control[] = [
     { kind:'slider', key:'gain', label:'Gain', min:0.10,max:0.6, step:0.005, default:0.32 },
+    { kind:'select', key:'colorMode', label:'Line Colour', options: [
+      { label:'Fixed', value:'fixed' },
+      { label:'Follow key', value:'key' },
+      { label:'Follow dominant note', value:'pitchClass' },
+      { label:'Follow melody pitch', value:'pitch' },
+    ], default:'fixed' },
   ]
   state: Record<string, any> = {}
 
@@ -37,9 +44,12 @@ class RadialBasic3D implements Layer {
   private sinLut!: Float32Array
   private prevRadius!: Float32Array
 
+  private opacity = 1 // scene transition fade (setOpacity)
+
   // temp/reused
   private tmpBins!: Float32Array
   private color = new THREE.Color(0x64ffda)
+  private targetColor = new THREE.Color(0x64ffda)
 
   init(ctx: LayerContext): void {
     createStateFromControls(this)
@@ -81,7 +91,7 @@ class RadialBasic3D implements Layer {
       color: 0x64ffda,
       linewidth: (this.state.minWidthPx as number) / Math.max(1, ctx.dpr),
       transparent: true,
-      opacity: 0.95,
+      opacity: 0.95 * this.opacity,
     })
     this.mat.resolution.set(ctx.size.w, ctx.size.h)
 
@@ -113,6 +123,11 @@ class RadialBasic3D implements Layer {
     if (this.line) this.line.visible = on
   }
 
+  setOpacity(opacity: number): void {
+    this.opacity = opacity
+    if (this.mat) this.mat.opacity = 0.95 * opacity
+  }
+
   update(ctx: LayerContext, f: Features): void {
     // fixed N baseline; no dynamic rebuild
     if (!this.line) return
@@ -168,6 +183,20 @@ class RadialBasic3D implements Layer {
     this.geom.setPositions(this.posArray as unknown as number[])
     this.line.computeLineDistances()
 
+    // line colour: fixed, or hue from the detected key / dominant pitch class / melody note
+    // (cents bend the hue between neighbouring notes; unclear pitch washes out)
+    const mode = this.state.colorMode
+    if (mode === 'key' && f.key.tonic >= 0) {
+      this.targetColor.setHSL(keyHue(f.key), 0.85, f.key.mode === 'minor' ? 0.55 : 0.65)
+    } else if (mode === 'pitchClass' && f.pitchClass >= 0) {
+      this.targetColor.setHSL(f.pitchClass / 12, 0.85, 0.6)
+    } else if (mode === 'pitch' && f.pitchMidi >= 0) {
+      const hue = (((f.pitchMidi + f.pitchCents / 100) % 12) + 12) % 12 / 12
+      this.targetColor.setHSL(hue, 0.35 + 0.55 * f.pitchClarity, 0.6)
+    } else {
+      this.targetColor.setHex(0x64ffda)
+    }
+    this.color.lerp(this.targetColor, 1 - Math.exp(-dt / 400))
     this.mat.color.set(this.color)
 
     this.mat.linewidth = 2 / Math.max(1, ctx.dpr)
@@ -2,6 +2,7 @@
 import * as THREE from 'three'
 import { registry, type Layer, type LayerContext, createStateFromControls } from '../engine/layers'
 import type { Features } from '../engine/features'
+import { keyHue } from '../engine/chroma'
 
 class SynthwaveWorld3D implements Layer {
   id = 'synthwave-world-3d'
@@ -15,6 +16,7 @@ class SynthwaveWorld3D implements Layer {
     { kind:'slider', key:'roadFeather',label:'Road Feather (world units)',min:0,  max:40,   step:0.5,   default:8 },
     { kind:'slider', key:'fadeDepth',  label:'Depth Fade',              min:0.004,max:0.03, step:0.001, default:0.010 },
     { kind:'slider', key:'hue',        label:'Neon Hue (grid)',         min:0.00, max:1.00, step:0.001, default:0.86  },
+    { kind:'toggle', key:'hueFollowsKey', label:'Hue Follows Key (offset from Neon Hue)', default:false },
     { kind:'toggle', key:'tiltCamera', label:'Tilt Camera',             default:true },
     { kind:'slider', key:'lineBrightness', label:'Line Brightness',     min:0.1,  max:4.0,  step:0.05,  default:1.25 },
     { kind:'slider', key:'lineAlpha',      label:'Line Opacity',        min:0.1,  max:1.0,  step:0.05,  default:1.0  },
@@ -69,6 +71,7 @@ class SynthwaveWorld3D implements Layer {
     uGlassReflect: { value: number }
     uSunPos:       { value: THREE.Vector3 }
     uCamPos:       { value: THREE.Vector3 }
+    uFade:         { value: number }
   }
 
   // --- Sun
@@ -85,9 +88,12 @@ class SynthwaveWorld3D implements Layer {
     uSat:         { value: number }
     uBright:      { value: number }
     uGlow:        { value: number }
+    uFade:        { value: number }
   }
 
+  private opacity = 1
   private scroll = 0
+  private keyHueSmoothed = 0 // circle-of-fifths hue of the detected key, eased
   private prevScroll = 0
   private WORLD_W = 160
   private WORLD_D = 120
@@ -142,6 +148,7 @@ class SynthwaveWorld3D implements Layer {
       uGlassReflect: { value: (this.state.glassReflect as number) ?? 1.0 },
       uSunPos:       { value: new THREE.Vector3(0, (this.state.sunY as number) ?? 7.5, (this.state.sunZ as number) ?? -160) },
       uCamPos:       { value: new THREE.Vector3() },
+      uFade:         { value: this.opacity },
     }
 
     // Depth pre-pass: occlude sun wherever the grid plane is in front
@@ -205,6 +212,7 @@ class SynthwaveWorld3D implements Layer {
         uniform int   uRowHead;
         uniform float uGlassWidth, uGlassReflect;
         uniform vec3  uSunPos, uCamPos;
+        uniform float uFade;
 
         vec3 hsl2rgb(vec3 c){
           vec3 p = abs(fract(c.xxx + vec3(0., 2./3., 1./3.)) * 6. - 3.);
@@ -258,7 +266,7 @@ class SynthwaveWorld3D implements Layer {
           vec3 rgb = coreColor * aCore + haloColor * aHalo + glassColor * depthAlpha;
           float a  = aCore + aHalo;
 
-          outColor = vec4(rgb, a);
+          outColor = vec4(rgb, a) * uFade; // premultiplied: fade colour and alpha together
         }
       `,
     })
@@ -286,6 +294,7 @@ class SynthwaveWorld3D implements Layer {
       uHueBot:    { value: (this.state.sunHueBot as number) ?? 0.92 },
       uReflect:   { value: (this.state.glassReflect as number) ?? 1.0 },
       uOpacity:   { value: 0.9 },
+      uFade:      { value: this.opacity },
     }
 
     const roadMat = new THREE.ShaderMaterial({
@@ -316,6 +325,7 @@ class SynthwaveWorld3D implements Layer {
         uniform float uRowStepW;
         uniform float uReflect;
         uniform float uOpacity;
+        uniform float uFade;
         uniform float uHueTop, uHueBot;
 
         vec3 hsl2rgb(vec3 c){
@@ -347,7 +357,7 @@ class SynthwaveWorld3D implements Layer {
           vec3 baseGlass = vec3(0.02, 0.03, 0.05);
           vec3 color = baseGlass + sunCol * refl * (0.8 + 0.4 * center);
           float alpha = clamp(uOpacity, 0.0, 1.0);
-          outColor = vec4(color, alpha);
+          outColor = vec4(color, alpha) * uFade;
         }
       `,
     })
@@ -370,6 +380,7 @@ class SynthwaveWorld3D implements Layer {
       uSat:        { value: (this.state.sunSat as number) ?? 1.0 },
       uBright:     { value: (this.state.sunBright as number) ?? 1.35 },
       uGlow:       { value: (this.state.sunGlow as number) ?? 1.25 },
+      uFade:       { value: this.opacity },
     }
 
     const sunMat = new THREE.ShaderMaterial({
@@ -404,6 +415,7 @@ class SynthwaveWorld3D implements Layer {
         uniform float uSat;
         uniform float uBright;
         uniform float uGlow;
+        uniform float uFade;
 
         vec3 hsl2rgb(vec3 c){
           vec3 p = abs(fract(c.xxx + vec3(0., 2./3., 1./3.)) * 6. - 3.);
@@ -440,7 +452,7 @@ class SynthwaveWorld3D implements Layer {
           float glowBoost = 1.0 + edge * clamp(uGlow, 0.0, 3.0) * 0.5;
 
           vec3 rgb = base * glowBoost * cutout;
-          float a  = cutout;
+          float a  = cutout * uFade;
 
           outColor = vec4(rgb, a);
         }
@@ -474,6 +486,13 @@ class SynthwaveWorld3D implements Layer {
     if (this.road) this.road.visible = on
   }
 
+  setOpacity(opacity: number): void {
+    this.opacity = opacity
+    if (this.u) this.u.uFade.value = opacity
+    if (this.uSun) this.uSun.uFade.value = opacity
+    if (this.road) (this.road.material as THREE.ShaderMaterial).uniforms.uFade.value = opacity
+  }
+
   update(ctx: LayerContext, f: Features): void {
     if (!this.grid || !this.sun) return
 
@@ -482,7 +501,15 @@ class SynthwaveWorld3D implements Layer {
     const step       = (this.state.gridStep   as number) ?? 0.60
     const width      = (this.state.lineWidth  as number) ?? 0.12
     const fadeDepth  = (this.state.fadeDepth  as number) ?? 0.010
-    const hue        = (this.state.hue        as number) ?? 0.86
+    let hue          = (this.state.hue        as number) ?? 0.86
+    if (this.state.hueFollowsKey && f.key.tonic >= 0) {
+      // ease along the shortest way round the hue circle
+      const target = keyHue(f.key)
+      let d = target - this.keyHueSmoothed
+      d -= Math.round(d)
+      this.keyHueSmoothed = (this.keyHueSmoothed + d * (1 - Math.exp(-dt / 1500)) + 1) % 1
+      hue = (hue + this.keyHueSmoothed * Math.min(1, f.key.confidence * 2)) % 1
+    }
 
     // keep motion when quiet; add with adaptive energy
     const speed = baseSpeed * (0.7 + 0.8 * f.energyPeak01)